@@ -0,0 +1,272 @@
+/**
+ * Expiring cache on top of userscript storage
+ */
+
+import type { ScopedStorage } from "./storage.js";
+
+export interface CacheOptions {
+	/**
+	 * Time in milliseconds an entry stays fresh (default: 5 minutes)
+	 */
+	ttl?: number;
+
+	/**
+	 * Time in milliseconds an expired entry is still served while it is
+	 * refreshed in the background (default: 0)
+	 */
+	staleWhileRevalidate?: number;
+
+	/**
+	 * Maximum number of entries, the least recently used are evicted first
+	 * (default: 100)
+	 */
+	maxEntries?: number;
+}
+
+export interface CacheFetchOptions<T>
+	extends Pick<CacheOptions, "ttl" | "staleWhileRevalidate"> {
+	/**
+	 * Whether a loaded value should be cached (default: always)
+	 */
+	cacheable?: (value: T) => boolean;
+}
+
+interface CacheEntry<T> {
+	value: T;
+	expires: number;
+	staleUntil: number;
+}
+
+// Entries are kept in their own namespace, so no cache key can collide with
+// the index
+const ENTRY_NAMESPACE = "entry";
+
+// Keys ordered from least to most recently used
+const INDEX_KEY = "lru";
+
+/**
+ * Cache with per-entry TTL, stale-while-revalidate and LRU eviction
+ *
+ * Values are stored with the GM storage APIs, so they must be serializable.
+ */
+export class StorageCache {
+	private readonly options: Required<CacheOptions>;
+
+	private readonly entries: ScopedStorage;
+
+	// Pending loads, so concurrent requests for a key share one
+	private readonly loading = new Map<string, Promise<unknown>>();
+
+	// Keys read since the index was last written, least recent first. Reads
+	// only reorder them in memory, the index is updated on the next write.
+	private readonly used = new Set<string>();
+
+	// Index updates run one after the other, so none is lost
+	private indexQueue: Promise<unknown> = Promise.resolve();
+
+	/**
+	 * @param store - Storage the entries are kept in
+	 * @param options - Default TTL, stale time and size limit
+	 */
+	constructor(
+		private readonly store: ScopedStorage,
+		options: CacheOptions = {},
+	) {
+		this.options = {
+			ttl: 5 * 60 * 1000,
+			staleWhileRevalidate: 0,
+			maxEntries: 100,
+			...options,
+		};
+		this.entries = store.namespace(ENTRY_NAMESPACE);
+	}
+
+	/**
+	 * Get a fresh cached value
+	 *
+	 * @param key - Cache key
+	 * @returns Cached value, or undefined if missing or expired
+	 *
+	 * @example
+	 * ```ts
+	 * const user = await storage.cache.get<User>('user');
+	 * ```
+	 */
+	async get<T = unknown>(key: string): Promise<T | undefined> {
+		const entry = await this.read<T>(key);
+		if (!entry || entry.expires <= Date.now()) {
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	/**
+	 * Cache a value
+	 *
+	 * @param key - Cache key
+	 * @param value - Value to cache
+	 * @param options - TTL and stale time for this entry
+	 *
+	 * @example
+	 * ```ts
+	 * await storage.cache.set('user', user, { ttl: 60_000 });
+	 * ```
+	 */
+	async set<T = unknown>(
+		key: string,
+		value: T,
+		options: Pick<CacheOptions, "ttl" | "staleWhileRevalidate"> = {},
+	): Promise<void> {
+		const {
+			ttl = this.options.ttl,
+			staleWhileRevalidate = this.options.staleWhileRevalidate,
+		} = options;
+		const expires = Date.now() + ttl;
+
+		await this.entries.set<CacheEntry<T>>(key, {
+			value,
+			expires,
+			staleUntil: expires + staleWhileRevalidate,
+		});
+		this.markUsed(key);
+		await this.updateIndex();
+	}
+
+	/**
+	 * Remove a cached value
+	 *
+	 * @param key - Cache key
+	 */
+	async delete(key: string): Promise<void> {
+		this.used.delete(key);
+		await this.entries.delete(key);
+		await this.updateIndex();
+	}
+
+	/**
+	 * Remove every cached value
+	 */
+	async clear(): Promise<void> {
+		this.used.clear();
+		await this.withIndex(() => this.store.clear());
+	}
+
+	/**
+	 * Get a cached value, loading and caching it when missing or expired
+	 *
+	 * Within the stale-while-revalidate window the expired value is returned
+	 * right away and refreshed in the background.
+	 *
+	 * @param key - Cache key
+	 * @param load - Function that loads the value
+	 * @param options - TTL and stale time for this entry, and which loaded
+	 * values to cache
+	 * @returns Cached or loaded value
+	 *
+	 * @example
+	 * ```ts
+	 * const user = await storage.cache.fetch('user', () => loadUser(), {
+	 *   ttl: 60_000,
+	 *   staleWhileRevalidate: 10 * 60_000,
+	 * });
+	 * ```
+	 */
+	async fetch<T>(
+		key: string,
+		load: () => Promise<T>,
+		options: CacheFetchOptions<T> = {},
+	): Promise<T> {
+		const entry = await this.read<T>(key);
+		const now = Date.now();
+
+		if (entry && entry.expires > now) {
+			return entry.value;
+		}
+
+		const refresh = () => {
+			const pending = this.loading.get(key);
+			if (pending) return pending as Promise<T>;
+
+			const promise = load()
+				.then(async (value) => {
+					if (!options.cacheable || options.cacheable(value)) {
+						await this.set(key, value, options);
+					}
+					return value;
+				})
+				.finally(() => this.loading.delete(key));
+			this.loading.set(key, promise);
+			return promise;
+		};
+
+		if (entry && entry.staleUntil > now) {
+			refresh().catch((error) => {
+				console.warn(`[cache] Failed to revalidate "${key}":`, error);
+			});
+			return entry.value;
+		}
+
+		return refresh();
+	}
+
+	private async read<T>(key: string): Promise<CacheEntry<T> | undefined> {
+		const entry = await this.entries.get<CacheEntry<T>>(key);
+		if (!entry) {
+			return undefined;
+		}
+
+		if (entry.staleUntil <= Date.now()) {
+			await this.delete(key);
+			return undefined;
+		}
+
+		this.markUsed(key);
+		return entry;
+	}
+
+	private markUsed(key: string) {
+		this.used.delete(key);
+		this.used.add(key);
+	}
+
+	private withIndex<T>(update: () => Promise<T>): Promise<T> {
+		const result = this.indexQueue.then(update);
+		this.indexQueue = result.catch(() => {});
+		return result;
+	}
+
+	// Move recently used keys to the end of the index and evict the least
+	// recently used entries
+	private updateIndex(): Promise<void> {
+		return this.withIndex(async () => {
+			const recent = new Set(this.used);
+			this.used.clear();
+
+			const stored = new Set(await this.entries.listKeys());
+			const index = (await this.store.get<string[]>(INDEX_KEY, [])).filter(
+				(key) => stored.has(key) && !recent.has(key),
+			);
+
+			// Entries missing from the index, e.g. written by another tab at
+			// the same time, are evicted first rather than leaked
+			for (const key of stored) {
+				if (!index.includes(key) && !recent.has(key)) {
+					index.unshift(key);
+				}
+			}
+			for (const key of recent) {
+				if (stored.has(key)) index.push(key);
+			}
+
+			const evicted = index.splice(
+				0,
+				Math.max(0, index.length - this.options.maxEntries),
+			);
+			for (const key of evicted) {
+				await this.entries.delete(key);
+			}
+
+			await this.store.set(INDEX_KEY, index);
+		});
+	}
+}
@@ -0,0 +1,61 @@
+/**
+ * Teardown of script side effects before the dev server hot reloads it
+ */
+
+declare global {
+	interface Window {
+		/**
+		 * Called by the hot reload client before running the new script
+		 */
+		__USX_CLEANUP__?: () => void;
+	}
+}
+
+const disposers = new Set<() => void>();
+
+// Cleanup function assigned by the script itself, still called first
+let userCleanup: (() => void) | undefined;
+
+let installed = false;
+
+function runCleanup() {
+	userCleanup?.();
+
+	for (const dispose of [...disposers]) {
+		try {
+			dispose();
+		} catch (error) {
+			console.warn("[USX] Cleanup error:", error);
+		}
+	}
+	disposers.clear();
+}
+
+/**
+ * Run a function when the script is torn down for a hot reload
+ *
+ * Scripts can still assign `window.__USX_CLEANUP__`, which runs first.
+ *
+ * @param dispose - Function undoing a side effect
+ * @returns Function to remove the disposer
+ */
+export function onCleanup(dispose: () => void): () => void {
+	if (!installed && typeof window !== "undefined") {
+		installed = true;
+		userCleanup = window.__USX_CLEANUP__;
+
+		// A newer copy of the script defines it again after a reload
+		Object.defineProperty(window, "__USX_CLEANUP__", {
+			configurable: true,
+			get: () => runCleanup,
+			set: (cleanup: (() => void) | undefined) => {
+				userCleanup = cleanup;
+			},
+		});
+	}
+
+	disposers.add(dispose);
+	return () => {
+		disposers.delete(dispose);
+	};
+}
@@ -2,6 +2,8 @@
  * DOM utility functions for userscripts
  */
 
+import { watch } from "./observer.js";
+
 export interface WaitForOptions {
 	/**
 	 * Maximum time to wait in milliseconds (default: 10000ms / 10s)
@@ -14,12 +16,18 @@ export interface WaitForOptions {
 	parent?: Document | Element;
 
 	/**
-	 * Interval to check for element in milliseconds (default: 100ms)
+	 * Also check for the element every given milliseconds, for matches the
+	 * observer can't see such as attribute changes (default: off)
 	 */
 	interval?: number;
+
+	/**
+	 * Stop waiting, rejecting with the signal's reason
+	 */
+	signal?: AbortSignal;
 }
 
-export interface OnElementOptions {
+export interface OnElementOptions<T extends Element = Element> {
 	/**
 	 * Parent element to observe (default: document.body)
 	 */
@@ -29,11 +37,45 @@ export interface OnElementOptions {
 	 * Whether to call callback for existing elements (default: true)
 	 */
 	existing?: boolean;
+
+	/**
+	 * Stop observing after the first matching element (default: false)
+	 */
+	once?: boolean;
+
+	/**
+	 * Called when a matched element is removed from the parent. It's reported
+	 * again if added back later.
+	 */
+	onRemove?: (element: T) => void;
+
+	/**
+	 * Stop observing
+	 */
+	signal?: AbortSignal;
+}
+
+export interface WatchOptions {
+	/**
+	 * Parent element to observe (default: document.body)
+	 */
+	parent?: Element;
+
+	/**
+	 * Stop observing
+	 */
+	signal?: AbortSignal;
+}
+
+function getAbortError(signal: AbortSignal): unknown {
+	return signal.reason ?? new DOMException("Aborted", "AbortError");
 }
 
 /**
  * Wait for an element to appear in the DOM
  *
+ * Waiting stops when the script is hot reloaded.
+ *
  * @param selector - CSS selector to wait for
  * @param options - Configuration options
  * @returns Promise that resolves with the found element
@@ -42,15 +84,25 @@ export interface OnElementOptions {
  * ```ts
  * const button = await waitFor('.my-button');
  * button.click();
+ *
+ * // Cancel waiting
+ * const controller = new AbortController();
+ * waitFor('.dialog', { signal: controller.signal, timeout: 0 });
+ * controller.abort();
  * ```
  */
 export function waitFor<T extends Element = Element>(
 	selector: string,
 	options: WaitForOptions = {},
 ): Promise<T> {
-	const { timeout = 10000, parent = document } = options;
+	const { timeout = 10000, parent = document, interval, signal } = options;
 
 	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(getAbortError(signal));
+			return;
+		}
+
 		// Check if element already exists
 		const existing = parent.querySelector<T>(selector);
 		if (existing) {
@@ -58,32 +110,56 @@ export function waitFor<T extends Element = Element>(
 			return;
 		}
 
-		// Set up timeout
-		const timeoutId = setTimeout(() => {
-			observer.disconnect();
-			reject(new Error(`Timeout waiting for element: ${selector}`));
-		}, timeout);
-
-		// Use MutationObserver for efficient element detection
-		const observer = new MutationObserver(() => {
-			const element = parent.querySelector<T>(selector);
-			if (element) {
-				clearTimeout(timeoutId);
-				observer.disconnect();
-				resolve(element);
-			}
-		});
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		let intervalId: ReturnType<typeof setInterval> | undefined;
+
+		const stop = () => {
+			clearTimeout(timeoutId);
+			clearInterval(intervalId);
+			signal?.removeEventListener("abort", onAbort);
+			stopWatching();
+		};
+
+		const found = (element: T) => {
+			stop();
+			resolve(element);
+		};
+
+		const onAbort = () => {
+			stop();
+			reject(getAbortError(signal as AbortSignal));
+		};
 
-		observer.observe(parent === document ? document.documentElement : parent, {
-			childList: true,
-			subtree: true,
-		});
+		// Stops on hot reload too, leaving the promise pending since the old
+		// script is gone
+		const stopWatching = watch(
+			parent === document ? document.documentElement : parent,
+			{ selector, onAdded: (element) => found(element as T) },
+		);
+
+		// A timeout of 0 waits until aborted
+		if (timeout > 0) {
+			timeoutId = setTimeout(() => {
+				stop();
+				reject(new Error(`Timeout waiting for element: ${selector}`));
+			}, timeout);
+		}
+		if (interval && interval > 0) {
+			intervalId = setInterval(() => {
+				const element = parent.querySelector<T>(selector);
+				if (element) found(element);
+			}, interval);
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
 	});
 }
 
 /**
  * Execute a callback when elements matching a selector appear in the DOM
  *
+ * The callback runs once per element, even if it's moved or matched through
+ * several added ancestors. Observing stops when the script is hot reloaded.
+ *
  * @param selector - CSS selector to watch for
  * @param callback - Function to call when elements are found
  * @param options - Configuration options
@@ -93,6 +169,8 @@ export function waitFor<T extends Element = Element>(
  * ```ts
  * const stop = onElement('.item', (element) => {
  *   console.log('New item:', element);
+ * }, {
+ *   onRemove: (element) => console.log('Removed item:', element),
  * });
  *
  * // Later, stop observing
@@ -102,43 +180,247 @@ export function waitFor<T extends Element = Element>(
 export function onElement<T extends Element = Element>(
 	selector: string,
 	callback: (element: T) => void,
-	options: OnElementOptions = {},
+	options: OnElementOptions<T> = {},
 ): () => void {
-	const { parent = document.body, existing = true } = options;
+	const {
+		parent = document.body,
+		existing = true,
+		once = false,
+		onRemove,
+		signal,
+	} = options;
+
+	const seen = new WeakSet<Element>();
+
+	const found = (element: Element) => {
+		if (seen.has(element)) return;
+
+		seen.add(element);
+		if (once) stop();
+		callback(element as T);
+	};
+
+	const removed = (element: Element) => {
+		if (!seen.has(element)) return;
+
+		seen.delete(element);
+		onRemove?.(element as T);
+	};
+
+	const stop = watch(
+		parent,
+		{ selector, onAdded: found, onRemoved: onRemove && removed },
+		signal,
+	);
+	if (signal?.aborted) return stop;
 
 	// Call callback for existing elements
 	if (existing) {
-		const existingElements = parent.querySelectorAll<T>(selector);
-		existingElements.forEach(callback);
+		for (const element of Array.from(parent.querySelectorAll(selector))) {
+			found(element);
+			if (once) break;
+		}
+	}
+
+	// Return cleanup function
+	return stop;
+}
+
+/**
+ * Execute a callback when an attribute of elements matching a selector
+ * changes
+ *
+ * Observing stops when the script is hot reloaded.
+ *
+ * @param selector - CSS selector of the elements to watch
+ * @param attributes - Attribute name, or several of them
+ * @param callback - Function called with the element, the changed attribute
+ * and its previous value
+ * @param options - Configuration options
+ * @returns Function to stop observing
+ *
+ * @example
+ * ```ts
+ * onAttributeChange<HTMLButtonElement>('#submit', 'disabled', (button) => {
+ *   if (!button.disabled) button.click();
+ * });
+ * ```
+ */
+export function onAttributeChange<T extends Element = Element>(
+	selector: string,
+	attributes: string | string[],
+	callback: (element: T, attribute: string, oldValue: string | null) => void,
+	options: WatchOptions = {},
+): () => void {
+	const { parent = document.body, signal } = options;
+	const names = Array.isArray(attributes) ? attributes : [attributes];
+
+	return watch(
+		parent,
+		{
+			attributes: names,
+			onMutations(records) {
+				for (const record of records) {
+					if (
+						record.type !== "attributes" ||
+						!names.includes(record.attributeName as string)
+					) {
+						continue;
+					}
+
+					const element = record.target as T;
+					if (element.matches(selector)) {
+						callback(element, record.attributeName as string, record.oldValue);
+					}
+				}
+			},
+		},
+		signal,
+	);
+}
+
+/**
+ * Execute a callback when the text of elements matching a selector changes
+ *
+ * The callback runs once per element for each batch of changes, and only if
+ * the text is different from the last one seen.
+ *
+ * @param selector - CSS selector of the elements to watch
+ * @param callback - Function called with the element and its new text
+ * @param options - Configuration options
+ * @returns Function to stop observing
+ *
+ * @example
+ * ```ts
+ * onTextChange('#video-title', (element, title) => {
+ *   console.log('Now playing:', title);
+ * });
+ * ```
+ */
+export function onTextChange<T extends Element = Element>(
+	selector: string,
+	callback: (element: T, text: string) => void,
+	options: WatchOptions = {},
+): () => void {
+	const { parent = document.body, signal } = options;
+
+	// Last text seen per element, to skip changes that restore it
+	const texts = new WeakMap<Element, string>();
+	for (const element of Array.from(parent.querySelectorAll(selector))) {
+		texts.set(element, element.textContent ?? "");
 	}
 
-	// Set up MutationObserver for new elements
-	const observer = new MutationObserver((mutations) => {
-		for (const mutation of mutations) {
-			for (const node of mutation.addedNodes) {
-				if (node.nodeType !== Node.ELEMENT_NODE) continue;
+	return watch(
+		parent,
+		{
+			characterData: true,
+			onMutations(records) {
+				const changed = new Set<T>();
+				for (const record of records) {
+					if (record.type === "attributes") continue;
+
+					const target =
+						record.target.nodeType === Node.ELEMENT_NODE
+							? (record.target as Element)
+							: record.target.parentElement;
+					const element = target?.closest<T>(selector);
+					if (element && parent.contains(element)) {
+						changed.add(element);
+					}
+				}
 
-				const element = node as Element;
+				for (const element of changed) {
+					const text = element.textContent ?? "";
+					if (texts.get(element) === text) continue;
 
-				// Check if the added node matches the selector
-				if (element.matches(selector)) {
-					callback(element as T);
+					texts.set(element, text);
+					callback(element, text);
 				}
+			},
+		},
+		signal,
+	);
+}
 
-				// Check for matching descendants
-				const descendants = element.querySelectorAll<T>(selector);
-				descendants.forEach(callback);
-			}
+/**
+ * Wait until a condition is met, checking it whenever the DOM changes
+ *
+ * @param predicate - Function returning a truthy value once the condition is
+ * met
+ * @param options - Configuration options
+ * @returns Promise that resolves with the predicate's value
+ *
+ * @example
+ * ```ts
+ * const player = await waitForCondition(() => {
+ *   const video = document.querySelector('video');
+ *   return video && video.readyState > 0 && video;
+ * });
+ * ```
+ */
+export function waitForCondition<T>(
+	predicate: () => T | false | null | undefined | 0 | "",
+	options: WaitForOptions = {},
+): Promise<T> {
+	const { timeout = 10000, parent = document, interval, signal } = options;
+
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(getAbortError(signal));
+			return;
 		}
-	});
 
-	observer.observe(parent, {
-		childList: true,
-		subtree: true,
-	});
+		const initial = predicate();
+		if (initial) {
+			resolve(initial);
+			return;
+		}
 
-	// Return cleanup function
-	return () => observer.disconnect();
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		let intervalId: ReturnType<typeof setInterval> | undefined;
+
+		const stop = () => {
+			clearTimeout(timeoutId);
+			clearInterval(intervalId);
+			signal?.removeEventListener("abort", onAbort);
+			stopWatching();
+		};
+
+		const check = () => {
+			try {
+				const value = predicate();
+				if (value) {
+					stop();
+					resolve(value);
+				}
+			} catch (error) {
+				stop();
+				reject(error);
+			}
+		};
+
+		const onAbort = () => {
+			stop();
+			reject(getAbortError(signal as AbortSignal));
+		};
+
+		// Any change may affect the condition
+		const stopWatching = watch(
+			parent === document ? document.documentElement : parent,
+			{ attributes: true, characterData: true, onMutations: check },
+		);
+
+		if (timeout > 0) {
+			timeoutId = setTimeout(() => {
+				stop();
+				reject(new Error("Timeout waiting for condition"));
+			}, timeout);
+		}
+		if (interval && interval > 0) {
+			intervalId = setInterval(check, interval);
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
 }
 
 /**
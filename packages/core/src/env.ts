@@ -0,0 +1,323 @@
+/**
+ * Script manager detection and GM API capability resolution
+ */
+
+/**
+ * Id returned when registering listeners and menu commands
+ */
+export type GMId = string | number;
+
+export interface GMProgressEvent {
+	loaded: number;
+	total: number;
+	lengthComputable: boolean;
+}
+
+export interface GMRequestResponse {
+	status: number;
+	statusText: string;
+	responseText: string;
+	response: unknown;
+	responseHeaders?: string;
+	finalUrl?: string;
+}
+
+export interface GMRequestDetails {
+	method?: string;
+	url: string;
+	headers?: Record<string, string>;
+	data?: string | Blob | FormData | ArrayBuffer;
+	timeout?: number;
+	responseType?: "text" | "blob" | "arraybuffer" | "document";
+	onprogress?: (event: GMProgressEvent) => void;
+	onload?: (response: GMRequestResponse) => void;
+	onerror?: (error: { statusText?: string }) => void;
+	ontimeout?: () => void;
+	onabort?: () => void;
+}
+
+export interface GMDownloadDetails {
+	url: string;
+	name: string;
+	headers?: Record<string, string>;
+	saveAs?: boolean;
+	conflictAction?: "uniquify" | "overwrite" | "prompt";
+	onprogress?: (event: GMProgressEvent) => void;
+	onload?: () => void;
+	onerror?: (error: { error?: string; details?: string }) => void;
+	ontimeout?: () => void;
+}
+
+export interface GMNotificationDetails {
+	text: string;
+	title?: string;
+	image?: string;
+	tag?: string;
+	silent?: boolean;
+	highlight?: boolean;
+	timeout?: number;
+	onclick?: () => void;
+	ondone?: () => void;
+}
+
+/**
+ * Abortable handle returned by some GM APIs
+ */
+export interface GMControl {
+	abort?: () => void;
+}
+
+/**
+ * GM APIs used by the wrappers, in the shape shared by GM.* and GM_*.
+ * Either flavor may return a promise.
+ */
+export interface GMApi {
+	info: {
+		script: { name: string; version: string; grant?: string[] };
+		scriptHandler?: string;
+		version?: string;
+		sandboxMode?: "raw" | "js" | "dom";
+		injectInto?: "page" | "content" | "auto";
+	};
+	getValue<T>(key: string, defaultValue?: T): T | Promise<T>;
+	setValue(key: string, value: unknown): void | Promise<void>;
+	deleteValue(key: string): void | Promise<void>;
+	listValues(): string[] | Promise<string[]>;
+	addValueChangeListener(
+		key: string,
+		listener: (
+			name: string,
+			oldValue: unknown,
+			newValue: unknown,
+			remote: boolean,
+		) => void,
+	): GMId | Promise<GMId>;
+	removeValueChangeListener(id: GMId): void | Promise<void>;
+	xmlHttpRequest(details: GMRequestDetails): GMControl | undefined;
+	download(details: GMDownloadDetails): GMControl | undefined;
+	addStyle(css: string): unknown;
+	getResourceText(name: string): string | null | undefined;
+	getResourceUrl(name: string): string | null | undefined;
+	openInTab(url: string, background?: boolean): object | undefined;
+	setClipboard(text: string): void | Promise<void>;
+	notification(
+		details: GMNotificationDetails,
+	): { remove?: () => void } | Promise<unknown> | undefined;
+	registerMenuCommand(
+		label: string,
+		callback: () => void,
+		options?: object,
+	): GMId | Promise<GMId>;
+	unregisterMenuCommand(id: GMId): void | Promise<void>;
+}
+
+export type GMApiName = keyof GMApi;
+
+export interface ScriptEnvironment {
+	/** Script manager, e.g. `Tampermonkey` or `Violentmonkey` */
+	manager?: string;
+	/** Script manager version */
+	managerVersion?: string;
+	/** Name of the running script */
+	scriptName?: string;
+	/** Version of the running script */
+	scriptVersion?: string;
+	/**
+	 * Where the script runs: in the page itself, or in an isolated content
+	 * script context
+	 */
+	sandbox?: "page" | "content";
+	/** APIs granted with `@grant` */
+	grants: string[];
+	/** Whether the script runs inside a frame */
+	inFrame: boolean;
+}
+
+/**
+ * What wrappers do when falling back to page APIs because a GM API is not
+ * available: nothing, warn once per API or throw
+ */
+export type FallbackPolicy = "silent" | "warn" | "throw";
+
+// Set by the dev build, see `build.fallback`
+declare const __USX_FALLBACK_POLICY__: FallbackPolicy | undefined;
+
+// Implementations replacing the detected ones, e.g. in tests
+const overrides = new Map<GMApiName, unknown>();
+
+let fallbackPolicy: FallbackPolicy =
+	typeof __USX_FALLBACK_POLICY__ !== "undefined"
+		? __USX_FALLBACK_POLICY__
+		: "silent";
+
+// APIs already warned about
+const warned = new Set<GMApiName>();
+
+// Legacy grant names that aren't GM_ followed by the API name
+const LEGACY_NAMES: Partial<Record<GMApiName, string>> = {
+	xmlHttpRequest: "GM_xmlhttpRequest",
+	getResourceUrl: "GM_getResourceURL",
+};
+
+let environment: ScriptEnvironment | undefined;
+
+/**
+ * Resolve a GM API, returning the first candidate that exists
+ *
+ * Candidates are functions returning the API (usually `() => GM.x` and
+ * `() => GM_x`), so globals that aren't granted can be referenced safely.
+ *
+ * @param name - API name
+ * @param candidates - Functions returning each flavor of the API, in order
+ * of preference
+ * @returns The API, or undefined if not available
+ *
+ * @example
+ * ```ts
+ * const getValue = resolveApi('getValue', () => GM.getValue, () => GM_getValue);
+ * ```
+ */
+export function resolveApi<K extends GMApiName>(
+	name: K,
+	...candidates: (() => unknown)[]
+): GMApi[K] | undefined {
+	if (overrides.has(name)) {
+		return (overrides.get(name) ?? undefined) as GMApi[K] | undefined;
+	}
+
+	for (const candidate of candidates) {
+		try {
+			const api = candidate();
+			if (api !== undefined && api !== null) {
+				return api as GMApi[K];
+			}
+		} catch {
+			// Not granted, so the global doesn't exist
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Replace a GM API for every wrapper, e.g. to test fallbacks
+ *
+ * @param name - API name
+ * @param implementation - Replacement, `null` to make the API unavailable
+ * or `undefined` to restore the detected one
+ *
+ * @example
+ * ```ts
+ * overrideApi('xmlHttpRequest', null); // Behave as if not granted
+ * ```
+ */
+export function overrideApi<K extends GMApiName>(
+	name: K,
+	implementation: GMApi[K] | null | undefined,
+): void {
+	if (implementation === undefined) {
+		overrides.delete(name);
+	} else {
+		overrides.set(name, implementation);
+	}
+	if (name === "info") {
+		environment = undefined;
+	}
+}
+
+/**
+ * Choose what wrappers do when falling back to page APIs
+ *
+ * @param policy - `silent`, `warn` once per API, or `throw`
+ *
+ * @example
+ * ```ts
+ * setFallbackPolicy('throw'); // Fail loudly on a missing @grant
+ * ```
+ */
+export function setFallbackPolicy(policy: FallbackPolicy): void {
+	fallbackPolicy = policy;
+	warned.clear();
+}
+
+/**
+ * Get the current fallback policy
+ */
+export function getFallbackPolicy(): FallbackPolicy {
+	return fallbackPolicy;
+}
+
+/**
+ * Report that a wrapper is falling back because a GM API is missing,
+ * following the fallback policy
+ *
+ * @param name - Missing API
+ * @param fallback - What happens instead, e.g. `using localStorage instead`
+ */
+export function reportFallback(name: GMApiName, fallback: string): void {
+	if (fallbackPolicy === "silent") return;
+
+	const grant = LEGACY_NAMES[name] ?? `GM_${name}`;
+	const message = `${grant} is not available, ${fallback}. Add "${grant}" or "GM.${name}" to the grant metadata.`;
+
+	if (fallbackPolicy === "throw") {
+		throw new Error(message);
+	}
+
+	if (!warned.has(name)) {
+		warned.add(name);
+		console.warn(`[USX] ${message}`);
+	}
+}
+
+function isInFrame(): boolean {
+	try {
+		return window.self !== window.top;
+	} catch {
+		// Cross-origin parent
+		return true;
+	}
+}
+
+/**
+ * Get details about the script manager and the running script
+ *
+ * @returns Script environment
+ *
+ * @example
+ * ```ts
+ * const { manager, managerVersion, sandbox } = getEnvironment();
+ * if (manager === 'Violentmonkey') {
+ *   // ...
+ * }
+ * ```
+ */
+export function getEnvironment(): ScriptEnvironment {
+	if (environment) {
+		return environment;
+	}
+
+	const info = resolveApi(
+		"info",
+		() => GM.info,
+		() => GM_info,
+	);
+
+	let sandbox: ScriptEnvironment["sandbox"];
+	if (info?.sandboxMode) {
+		sandbox = info.sandboxMode === "raw" ? "page" : "content";
+	} else if (info?.injectInto === "page" || info?.injectInto === "content") {
+		sandbox = info.injectInto;
+	}
+
+	environment = {
+		manager: info?.scriptHandler,
+		managerVersion: info?.version,
+		scriptName: info?.script.name,
+		scriptVersion: info?.script.version,
+		sandbox,
+		grants: info?.script.grant ?? [],
+		inFrame: isInFrame(),
+	};
+	return environment;
+}
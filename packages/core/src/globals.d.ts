@@ -0,0 +1,24 @@
+/**
+ * Globals provided by the script manager for granted APIs. They're only
+ * read through `resolveApi`, which types them, so the shapes of the
+ * different managers don't need to be declared here.
+ */
+
+declare const GM: Partial<import("./env.js").GMApi>;
+declare const GM_info: unknown;
+declare const GM_getValue: unknown;
+declare const GM_setValue: unknown;
+declare const GM_deleteValue: unknown;
+declare const GM_listValues: unknown;
+declare const GM_addValueChangeListener: unknown;
+declare const GM_removeValueChangeListener: unknown;
+declare const GM_xmlhttpRequest: unknown;
+declare const GM_download: unknown;
+declare const GM_addStyle: unknown;
+declare const GM_getResourceText: unknown;
+declare const GM_getResourceURL: unknown;
+declare const GM_openInTab: unknown;
+declare const GM_setClipboard: unknown;
+declare const GM_notification: unknown;
+declare const GM_registerMenuCommand: unknown;
+declare const GM_unregisterMenuCommand: unknown;
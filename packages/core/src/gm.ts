@@ -2,6 +2,41 @@
  * Improved wrappers around Greasemonkey/Tampermonkey/Violentmonkey APIs
  */
 
+import type { StorageCache } from "./cache.js";
+import { reportFallback, resolveApi } from "./env.js";
+import { storage } from "./storage.js";
+
+export interface FetchProgress {
+	/** Bytes received so far */
+	loaded: number;
+	/** Total bytes, if known */
+	total: number;
+	/** Whether `total` is known */
+	lengthComputable: boolean;
+}
+
+export interface RetryOptions {
+	/**
+	 * Number of retries after the first attempt
+	 */
+	retries: number;
+
+	/**
+	 * Delay before the first retry in milliseconds (default: 1000)
+	 */
+	delay?: number;
+
+	/**
+	 * Multiplier applied to the delay after each retry (default: 2)
+	 */
+	factor?: number;
+
+	/**
+	 * Response statuses that are retried (default: 408, 429 and 5xx)
+	 */
+	statuses?: number[];
+}
+
 export interface FetchOptions extends RequestInit {
 	/**
 	 * Timeout in milliseconds
@@ -12,9 +47,44 @@ export interface FetchOptions extends RequestInit {
 	 * Response type
 	 */
 	responseType?: "text" | "json" | "blob" | "arraybuffer" | "document";
+
+	/**
+	 * Retry network errors, timeouts and retryable statuses. A number is the
+	 * count of retries with the default backoff.
+	 */
+	retry?: number | RetryOptions;
+
+	/**
+	 * Called as the response is downloaded
+	 */
+	onProgress?: (progress: FetchProgress) => void;
+
+	/**
+	 * Reject with an `HttpError` when the response status is not 2xx
+	 */
+	throwHttpErrors?: boolean;
+
+	/**
+	 * Cache successful (2xx) responses under this key. Only text and JSON
+	 * responses can be cached.
+	 */
+	cacheKey?: string;
+
+	/**
+	 * Cache to keep responses in (default: `storage.cache`)
+	 */
+	cacheStore?: StorageCache;
+
+	/**
+	 * How long a cached response stays fresh, in milliseconds
+	 * (default: the cache TTL)
+	 */
+	cacheTtl?: number;
 }
 
 export interface FetchResponse<T = unknown> {
+	/** Whether the status is 2xx */
+	ok: boolean;
 	status: number;
 	statusText: string;
 	headers: Record<string, string>;
@@ -22,6 +92,117 @@ export interface FetchResponse<T = unknown> {
 	finalUrl: string;
 }
 
+/**
+ * Error for responses with a non-2xx status, see `throwHttpErrors`
+ */
+export class HttpError<T = unknown> extends Error {
+	readonly status: number;
+	readonly statusText: string;
+	readonly response: FetchResponse<T>;
+
+	constructor(response: FetchResponse<T>) {
+		super(
+			`Request failed with status ${response.status}${
+				response.statusText ? ` ${response.statusText}` : ""
+			}: ${response.finalUrl}`,
+		);
+		this.name = "HttpError";
+		this.status = response.status;
+		this.statusText = response.statusText;
+		this.response = response;
+	}
+}
+
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Network errors and timeouts, the only errors worth retrying
+class NetworkError extends Error {}
+
+function getAbortError(signal: AbortSignal): unknown {
+	return signal.reason ?? new DOMException("Request aborted", "AbortError");
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(getAbortError(signal));
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(getAbortError(signal as AbortSignal));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+// Convert any BodyInit into data GM_xmlhttpRequest can send, setting the
+// content type the browser would use when it isn't set explicitly
+async function serializeBody(
+	body: BodyInit | null | undefined,
+	headers: Record<string, string>,
+): Promise<string | Blob | FormData | ArrayBuffer | undefined> {
+	const setType = (type: string) => {
+		headers["content-type"] ??= type;
+	};
+
+	if (body === null || body === undefined) {
+		return undefined;
+	}
+
+	if (typeof body === "string") {
+		setType("text/plain;charset=UTF-8");
+		return body;
+	}
+
+	if (body instanceof URLSearchParams) {
+		setType("application/x-www-form-urlencoded;charset=UTF-8");
+		return body.toString();
+	}
+
+	// The manager sets the multipart boundary itself
+	if (body instanceof FormData) {
+		return body;
+	}
+
+	if (body instanceof Blob) {
+		if (body.type) setType(body.type);
+		return body;
+	}
+
+	if (body instanceof ArrayBuffer) {
+		return body;
+	}
+
+	if (ArrayBuffer.isView(body)) {
+		return body.buffer.slice(
+			body.byteOffset,
+			body.byteOffset + body.byteLength,
+		) as ArrayBuffer;
+	}
+
+	// ReadableStream, which GM_xmlhttpRequest can't send directly
+	return new Response(body).blob();
+}
+
+function parseHeaders(raw: string | undefined): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (raw) {
+		raw.split("\n").forEach((line: string) => {
+			const [key, ...valueParts] = line.split(":");
+			if (key && valueParts.length > 0) {
+				headers[key.trim().toLowerCase()] = valueParts.join(":").trim();
+			}
+		});
+	}
+	return headers;
+}
+
 /**
  * Make HTTP requests using GM_xmlhttpRequest with a fetch-like API
  *
@@ -33,93 +214,196 @@ export interface FetchResponse<T = unknown> {
  * ```ts
  * const response = await fetch<User>('https://api.example.com/user');
  * console.log(response.data.name);
+ *
+ * // Retry twice, give up after 10 seconds and throw on error statuses
+ * await fetch<User>('https://api.example.com/user', {
+ *   retry: 2,
+ *   signal: AbortSignal.timeout(10_000),
+ *   throwHttpErrors: true,
+ * });
+ *
+ * // Reuse the response for an hour
+ * await fetch<User>('https://api.example.com/user', {
+ *   cacheKey: 'user',
+ *   cacheTtl: 60 * 60 * 1000,
+ * });
  * ```
  */
 export function fetch<T = unknown>(
 	url: string,
 	options: FetchOptions = {},
 ): Promise<FetchResponse<T>> {
-	return new Promise((resolve, reject) => {
-		const {
-			method = "GET",
-			headers = {},
-			body,
-			timeout = 30000,
-			responseType = "json",
-		} = options;
-
-		// Check if GM_xmlhttpRequest is available
-		if (
-			typeof GM_xmlhttpRequest === "undefined" &&
-			(typeof GM === "undefined" || !GM.xmlHttpRequest)
-		) {
-			reject(new Error("GM_xmlhttpRequest is not available"));
-			return;
+	const { cacheKey, cacheStore, cacheTtl, responseType = "json" } = options;
+
+	if (cacheKey) {
+		// Blobs, buffers and documents can't be stored
+		if (responseType !== "text" && responseType !== "json") {
+			return Promise.reject(
+				new TypeError(`${responseType} responses can't be cached`),
+			);
+		}
+
+		// Created on first use, scripts that never cache don't touch storage
+		const cache = cacheStore ?? storage.cache;
+		return cache.fetch(cacheKey, () => request<T>(url, options), {
+			ttl: cacheTtl,
+			cacheable: (response) => response.ok,
+		});
+	}
+
+	return request<T>(url, options);
+}
+
+async function request<T>(
+	url: string,
+	options: FetchOptions,
+): Promise<FetchResponse<T>> {
+	const { retry = 0, signal, throwHttpErrors = false } = options;
+	const {
+		retries,
+		delay = 1000,
+		factor = 2,
+		statuses = RETRY_STATUSES,
+	} = typeof retry === "number" ? { retries: retry } : retry;
+
+	for (let attempt = 0; ; attempt++) {
+		const backoff = delay * factor ** attempt;
+
+		try {
+			const response = await send<T>(url, options);
+
+			if (attempt < retries && statuses.includes(response.status)) {
+				await sleep(backoff, signal);
+				continue;
+			}
+
+			if (throwHttpErrors && !response.ok) {
+				throw new HttpError(response);
+			}
+
+			return response;
+		} catch (error) {
+			if (
+				!(error instanceof NetworkError) ||
+				signal?.aborted ||
+				attempt >= retries
+			) {
+				throw error;
+			}
+			await sleep(backoff, signal);
 		}
+	}
+}
 
-		const gmFetch =
-			typeof GM !== "undefined" && GM.xmlHttpRequest
-				? GM.xmlHttpRequest
-				: GM_xmlhttpRequest;
+async function send<T>(
+	url: string,
+	options: FetchOptions,
+): Promise<FetchResponse<T>> {
+	const {
+		method = "GET",
+		timeout = 30000,
+		responseType = "json",
+		signal,
+		onProgress,
+	} = options;
 
-		gmFetch({
+	const gmFetch = resolveApi(
+		"xmlHttpRequest",
+		() => GM.xmlHttpRequest,
+		() => GM_xmlhttpRequest,
+	);
+	if (!gmFetch) {
+		throw new Error("GM_xmlhttpRequest is not available");
+	}
+
+	// Header names are lowercased, like fetch does
+	const headers: Record<string, string> = {};
+	new Headers(options.headers).forEach((value, key) => {
+		headers[key] = value;
+	});
+	const data = await serializeBody(options.body, headers);
+
+	if (signal?.aborted) {
+		throw getAbortError(signal);
+	}
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			control?.abort?.();
+			reject(getAbortError(signal as AbortSignal));
+		};
+		const done = () => signal?.removeEventListener("abort", onAbort);
+
+		const control = gmFetch({
 			method,
 			url,
-			headers: headers as Record<string, string>,
-			data: body as string,
+			headers,
+			data,
 			timeout,
-			responseType: responseType as "text",
-			onload: (response: {
-				status: number;
-				statusText: string;
-				responseText: string;
-				response: unknown;
-				responseHeaders?: string;
-				finalUrl?: string;
-			}) => {
+			// JSON is parsed here, so that error pages don't fail to parse
+			responseType: responseType === "json" ? "text" : responseType,
+			onprogress: onProgress
+				? (event: FetchProgress) => {
+						onProgress({
+							loaded: event.loaded,
+							total: event.total,
+							lengthComputable: event.lengthComputable,
+						});
+					}
+				: undefined,
+			onload: (response) => {
+				done();
+				const ok = response.status >= 200 && response.status < 300;
 				let data: T;
 
 				if (responseType === "json") {
 					try {
-						data = JSON.parse(response.responseText) as T;
+						data = (
+							response.responseText === ""
+								? null
+								: JSON.parse(response.responseText)
+						) as T;
 					} catch (error) {
-						reject(new Error(`Failed to parse JSON response: ${error}`));
-						return;
+						// Error pages are often HTML, keep them as text
+						if (!ok) {
+							data = response.responseText as T;
+						} else {
+							reject(new Error(`Failed to parse JSON response: ${error}`));
+							return;
+						}
 					}
 				} else {
 					data = response.response as T;
 				}
 
-				// Parse headers into object
-				const headersObj: Record<string, string> = {};
-				if (response.responseHeaders) {
-					response.responseHeaders.split("\n").forEach((line: string) => {
-						const [key, ...valueParts] = line.split(":");
-						if (key && valueParts.length > 0) {
-							headersObj[key.trim().toLowerCase()] = valueParts
-								.join(":")
-								.trim();
-						}
-					});
-				}
-
 				resolve({
+					ok,
 					status: response.status,
 					statusText: response.statusText,
-					headers: headersObj,
+					headers: parseHeaders(response.responseHeaders),
 					data,
 					finalUrl: response.finalUrl || url,
 				});
 			},
-			onerror: (error: { statusText?: string }) => {
+			onerror: (error) => {
+				done();
 				reject(
-					new Error(`Request failed: ${error.statusText || "Unknown error"}`),
+					new NetworkError(
+						`Request failed: ${error.statusText || "Unknown error"}`,
+					),
 				);
 			},
 			ontimeout: () => {
-				reject(new Error(`Request timeout after ${timeout}ms`));
+				done();
+				reject(new NetworkError(`Request timeout after ${timeout}ms`));
+			},
+			onabort: () => {
+				done();
+				reject(new DOMException("Request aborted", "AbortError"));
 			},
 		});
+
+		signal?.addEventListener("abort", onAbort, { once: true });
 	});
 }
 
@@ -139,23 +423,78 @@ export function fetch<T = unknown>(
  * ```
  */
 export function addStyle(css: string): HTMLStyleElement | undefined {
-	if (typeof GM !== "undefined" && GM.addStyle) {
-		GM.addStyle(css);
-		return undefined;
-	}
-
-	if (typeof GM_addStyle !== "undefined") {
-		GM_addStyle(css);
+	const gmAddStyle = resolveApi(
+		"addStyle",
+		() => GM.addStyle,
+		() => GM_addStyle,
+	);
+	if (gmAddStyle) {
+		gmAddStyle(css);
 		return undefined;
 	}
 
 	// Fallback to manual style injection
+	reportFallback("addStyle", "adding a <style> element instead");
 	const style = document.createElement("style");
 	style.textContent = css;
 	(document.head || document.documentElement).appendChild(style);
 	return style;
 }
 
+/**
+ * Get the text of a `@resource`
+ *
+ * @param name - Resource name declared in the metadata
+ * @returns Resource contents
+ *
+ * @example
+ * ```ts
+ * addStyle(getResourceText('panel.css'));
+ * ```
+ */
+export function getResourceText(name: string): string {
+	const gmGetResourceText = resolveApi(
+		"getResourceText",
+		() => GM_getResourceText,
+	);
+	if (gmGetResourceText) {
+		const text = gmGetResourceText(name);
+		if (text === null || text === undefined) {
+			throw new Error(`Resource not found: ${name}`);
+		}
+		return text;
+	}
+
+	throw new Error("GM_getResourceText is not available");
+}
+
+/**
+ * Get a URL (usually a blob: or data: URL) for a `@resource`
+ *
+ * @param name - Resource name declared in the metadata
+ * @returns URL that can be used as `src` or in CSS
+ *
+ * @example
+ * ```ts
+ * image.src = getResourceUrl('logo.png');
+ * ```
+ */
+export function getResourceUrl(name: string): string {
+	const gmGetResourceUrl = resolveApi(
+		"getResourceUrl",
+		() => GM_getResourceURL,
+	);
+	if (gmGetResourceUrl) {
+		const url = gmGetResourceUrl(name);
+		if (!url) {
+			throw new Error(`Resource not found: ${name}`);
+		}
+		return url;
+	}
+
+	throw new Error("GM_getResourceURL is not available");
+}
+
 /**
  * Open a URL in a new tab
  *
@@ -172,15 +511,17 @@ export function openInTab(
 	url: string,
 	background = false,
 ): Window | object | null {
-	if (typeof GM !== "undefined" && GM.openInTab) {
-		return GM.openInTab(url, background);
-	}
-
-	if (typeof GM_openInTab !== "undefined") {
-		return GM_openInTab(url, background);
+	const gmOpenInTab = resolveApi(
+		"openInTab",
+		() => GM.openInTab,
+		() => GM_openInTab,
+	);
+	if (gmOpenInTab) {
+		return gmOpenInTab(url, background) ?? null;
 	}
 
 	// Fallback to window.open
+	reportFallback("openInTab", "using window.open instead");
 	return window.open(url, "_blank");
 }
 
@@ -195,17 +536,18 @@ export function openInTab(
  * ```
  */
 export async function setClipboard(text: string): Promise<void> {
-	if (typeof GM !== "undefined" && GM.setClipboard) {
-		GM.setClipboard(text);
-		return;
-	}
-
-	if (typeof GM_setClipboard !== "undefined") {
-		GM_setClipboard(text);
+	const gmSetClipboard = resolveApi(
+		"setClipboard",
+		() => GM.setClipboard,
+		() => GM_setClipboard,
+	);
+	if (gmSetClipboard) {
+		gmSetClipboard(text);
 		return;
 	}
 
 	// Fallback to navigator.clipboard
+	reportFallback("setClipboard", "using navigator.clipboard instead");
 	if (navigator.clipboard?.writeText) {
 		await navigator.clipboard.writeText(text);
 		return;
@@ -214,52 +556,336 @@ export async function setClipboard(text: string): Promise<void> {
 	throw new Error("Clipboard API not available");
 }
 
+export interface DownloadOptions {
+	/**
+	 * Request headers, for URL downloads
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Show the browser's "Save as" dialog
+	 */
+	saveAs?: boolean;
+
+	/**
+	 * What to do when the file already exists (default: the browser's choice)
+	 */
+	conflictAction?: "uniquify" | "overwrite" | "prompt";
+
+	/**
+	 * Abort the download
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Called as the file is downloaded
+	 */
+	onProgress?: (progress: FetchProgress) => void;
+}
+
+/**
+ * Save a remote file or a Blob to disk
+ *
+ * Uses GM_download when available, which reports progress and can be
+ * aborted. Otherwise falls back to clicking a link with the download
+ * attribute, which resolves as soon as the browser takes over.
+ *
+ * @param source - URL or Blob to save
+ * @param filename - Name of the saved file
+ * @param options - Download options
+ *
+ * @example
+ * ```ts
+ * await download('https://example.com/video.mp4', 'video.mp4', {
+ *   onProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+ * });
+ *
+ * const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+ * await download(blob, 'data.json');
+ * ```
+ */
+export function download(
+	source: string | Blob,
+	filename: string,
+	options: DownloadOptions = {},
+): Promise<void> {
+	const { signal, onProgress } = options;
+
+	if (signal?.aborted) {
+		return Promise.reject(getAbortError(signal));
+	}
+
+	const url = typeof source === "string" ? source : URL.createObjectURL(source);
+	const revoke = () => {
+		if (typeof source !== "string") {
+			URL.revokeObjectURL(url);
+		}
+	};
+
+	const gmDownload = resolveApi(
+		"download",
+		() => GM.download,
+		() => GM_download,
+	);
+
+	// Fallback to a link with the download attribute
+	if (!gmDownload) {
+		reportFallback("download", "using a download link instead");
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = filename;
+		link.style.display = "none";
+		(document.body || document.documentElement).appendChild(link);
+		link.click();
+		link.remove();
+
+		// Give the browser time to start the download before revoking
+		setTimeout(revoke, 30000);
+		return Promise.resolve();
+	}
+
+	return new Promise((resolve, reject) => {
+		const finish = (error?: unknown) => {
+			signal?.removeEventListener("abort", onAbort);
+			revoke();
+			if (error) {
+				reject(error);
+			} else {
+				resolve();
+			}
+		};
+
+		const onAbort = () => {
+			control?.abort?.();
+			finish(getAbortError(signal as AbortSignal));
+		};
+
+		const control = gmDownload({
+			url,
+			name: filename,
+			headers: options.headers,
+			saveAs: options.saveAs,
+			conflictAction: options.conflictAction,
+			onprogress: onProgress
+				? (event: FetchProgress) => {
+						onProgress({
+							loaded: event.loaded,
+							total: event.total,
+							lengthComputable: event.lengthComputable,
+						});
+					}
+				: undefined,
+			onload: () => finish(),
+			onerror: (error) => {
+				finish(
+					new Error(
+						`Download failed: ${error.error || "unknown error"}${
+							error.details ? ` (${error.details})` : ""
+						}`,
+					),
+				);
+			},
+			ontimeout: () => finish(new Error("Download timed out")),
+		});
+
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+export interface NotifyOptions {
+	/**
+	 * Image shown in the notification
+	 */
+	image?: string;
+
+	/**
+	 * Notifications with the same tag replace each other
+	 */
+	tag?: string;
+
+	/**
+	 * Don't play a sound
+	 */
+	silent?: boolean;
+
+	/**
+	 * Highlight the tab the script runs in (Tampermonkey only)
+	 */
+	highlight?: boolean;
+
+	/**
+	 * Close the notification after this many milliseconds
+	 */
+	timeout?: number;
+
+	/**
+	 * Called when the notification is clicked
+	 */
+	onclick?: () => void;
+
+	/**
+	 * Called once a shown notification is clicked, closed or timed out
+	 */
+	ondone?: () => void;
+}
+
+/**
+ * How a notification ended
+ */
+export type NotificationResult =
+	| "clicked"
+	| "closed"
+	| "timeout"
+	| "denied"
+	| "unavailable";
+
+/**
+ * Promise resolving when the notification ends, which can also close it
+ */
+export interface NotificationHandle extends Promise<NotificationResult> {
+	/**
+	 * Close the notification, if the script manager supports it
+	 */
+	close(): void;
+}
+
+async function getNotificationPermission(): Promise<NotificationPermission> {
+	if (Notification.permission !== "default") {
+		return Notification.permission;
+	}
+	return Notification.requestPermission();
+}
+
 /**
  * Show a notification
  *
+ * Falls back to the Web Notification API, asking for permission if needed.
+ *
  * @param text - Notification text
  * @param title - Notification title
  * @param options - Additional notification options
+ * @returns Handle resolving with how the notification ended, or with
+ * `denied` or `unavailable` if it couldn't be shown
  *
  * @example
  * ```ts
  * notification('Task completed!', 'Success');
+ *
+ * const result = await notification('New version available', 'Update', {
+ *   tag: 'update',
+ *   timeout: 10_000,
+ * });
+ * if (result === 'clicked') {
+ *   openInTab(changelogUrl);
+ * }
  * ```
  */
 export function notification(
 	text: string,
 	title?: string,
-	options: { image?: string; onclick?: () => void } = {},
-): void {
-	if (typeof GM !== "undefined" && GM.notification) {
-		GM.notification({
-			text,
-			title,
-			image: options.image,
-			onclick: options.onclick,
-		});
-		return;
-	}
+	options: NotifyOptions = {},
+): NotificationHandle {
+	let close = () => {};
 
-	if (typeof GM_notification !== "undefined") {
-		GM_notification({
-			text,
-			title,
-			image: options.image,
-			onclick: options.onclick,
-		});
-		return;
-	}
+	const promise = new Promise<NotificationResult>((resolve) => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let done = false;
 
-	// Fallback to browser notification API
-	if ("Notification" in window && Notification.permission === "granted") {
-		const notification = new Notification(title || "Notification", {
-			body: text,
-			icon: options.image,
-		});
+		const settle = (result: NotificationResult) => {
+			if (done) return;
+			done = true;
+			clearTimeout(timer);
+			resolve(result);
+			options.ondone?.();
+		};
 
-		if (options.onclick) {
-			notification.onclick = options.onclick;
+		const onclick = () => {
+			options.onclick?.();
+			settle("clicked");
+		};
+
+		const gmNotification = resolveApi(
+			"notification",
+			() => GM.notification,
+			() => GM_notification,
+		);
+		if (gmNotification) {
+			const control = gmNotification({
+				text,
+				title,
+				image: options.image,
+				tag: options.tag,
+				silent: options.silent,
+				highlight: options.highlight,
+				onclick,
+				ondone: () => settle("closed"),
+			});
+			const remove = () => {
+				if (control && "remove" in control) {
+					control.remove?.();
+				}
+			};
+			close = () => {
+				settle("closed");
+				remove();
+			};
+
+			// Timed out here rather than by the manager, so the result is always
+			// "timeout" and managers ignoring the option close it too
+			if (options.timeout) {
+				timer = setTimeout(() => {
+					settle("timeout");
+					remove();
+				}, options.timeout);
+			}
+			return;
 		}
-	}
+
+		// Fallback to browser notification API
+		reportFallback("notification", "using the Notification API instead");
+		if (typeof Notification === "undefined") {
+			resolve("unavailable");
+			return;
+		}
+
+		getNotificationPermission().then(
+			(permission) => {
+				if (permission !== "granted") {
+					resolve("denied");
+					return;
+				}
+
+				let webNotification: Notification;
+				try {
+					webNotification = new Notification(title || "Notification", {
+						body: text,
+						icon: options.image,
+						tag: options.tag,
+						silent: options.silent,
+					});
+				} catch {
+					// Some browsers, e.g. on Android, only show them from a service worker
+					resolve("unavailable");
+					return;
+				}
+
+				webNotification.onclick = () => {
+					onclick();
+					webNotification.close();
+				};
+				webNotification.onclose = () => settle("closed");
+				close = () => webNotification.close();
+
+				if (options.timeout) {
+					timer = setTimeout(() => {
+						settle("timeout");
+						webNotification.close();
+					}, options.timeout);
+				}
+			},
+			() => resolve("denied"),
+		);
+	});
+
+	return Object.assign(promise, { close: () => close() });
 }
@@ -4,21 +4,115 @@
  * Runtime utilities for userscripts
  */
 
-export type { OnElementOptions, WaitForOptions } from "./dom.js";
+export type { CacheFetchOptions, CacheOptions } from "./cache.js";
+// Cache
+export { StorageCache } from "./cache.js";
+export type {
+	OnElementOptions,
+	WaitForOptions,
+	WatchOptions,
+} from "./dom.js";
 // DOM helpers
-export { onDOMLoaded, onElement, waitFor } from "./dom.js";
+export {
+	onAttributeChange,
+	onDOMLoaded,
+	onElement,
+	onTextChange,
+	waitFor,
+	waitForCondition,
+} from "./dom.js";
 export type {
+	FallbackPolicy,
+	GMApi,
+	GMApiName,
+	GMControl,
+	GMDownloadDetails,
+	GMId,
+	GMNotificationDetails,
+	GMProgressEvent,
+	GMRequestDetails,
+	GMRequestResponse,
+	ScriptEnvironment,
+} from "./env.js";
+// Environment and capabilities
+export {
+	getEnvironment,
+	getFallbackPolicy,
+	overrideApi,
+	reportFallback,
+	resolveApi,
+	setFallbackPolicy,
+} from "./env.js";
+export type {
+	DownloadOptions,
 	FetchOptions,
+	FetchProgress,
 	FetchResponse,
+	NotificationHandle,
+	NotificationResult,
+	NotifyOptions,
+	RetryOptions,
 } from "./gm.js";
-
 // GM API wrappers
 export {
 	addStyle,
+	download,
 	fetch,
+	getResourceText,
+	getResourceUrl,
+	HttpError,
 	notification,
 	openInTab,
 	setClipboard,
 } from "./gm.js";
+export type {
+	MenuCommand,
+	MenuCommandOptions,
+	MenuToggle,
+	MenuToggleOptions,
+} from "./menu.js";
+// Menu commands
+export { menu } from "./menu.js";
+export type {
+	Route,
+	RouteHandler,
+	RoutePattern,
+	UrlChangeListener,
+} from "./navigation.js";
+// Navigation
+export { matchUrl, onRoute, onUrlChange } from "./navigation.js";
+export type { ObserverMetrics } from "./observer.js";
+export { getObserverMetrics } from "./observer.js";
+export type {
+	DefineSettingsOptions,
+	SettingField,
+	Settings,
+	SettingsListener,
+	SettingsMigration,
+	SettingsSchema,
+	SettingsValues,
+} from "./settings.js";
+// Settings
+export { defineSettings } from "./settings.js";
 // Storage utilities
+export type { ScopedStorage, StorageChangeListener } from "./storage.js";
 export { storage } from "./storage.js";
+export type {
+	ModalButton,
+	ModalOptions,
+	Panel,
+	PanelOptions,
+	SettingsForm,
+	SettingsFormOptions,
+	Theme,
+	ToastOptions,
+} from "./ui.js";
+// UI
+export {
+	createPanel,
+	modal,
+	openSettings,
+	setTheme,
+	settingsForm,
+	toast,
+} from "./ui.js";
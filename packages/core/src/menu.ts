@@ -0,0 +1,253 @@
+/**
+ * Userscript manager menu commands
+ */
+
+import { onCleanup } from "./cleanup.js";
+import { type GMId, reportFallback, resolveApi } from "./env.js";
+import { storage } from "./storage.js";
+
+export interface MenuCommandOptions {
+	/**
+	 * Key that triggers the command while the menu is open
+	 */
+	accessKey?: string;
+
+	/**
+	 * Tooltip shown on hover
+	 */
+	title?: string;
+
+	/**
+	 * Close the menu after clicking the command (default: true)
+	 */
+	autoClose?: boolean;
+}
+
+export interface MenuCommand {
+	/**
+	 * Remove the command from the menu
+	 */
+	unregister(): void;
+}
+
+export interface MenuToggleOptions extends MenuCommandOptions {
+	/**
+	 * Value used when nothing is stored (default: false)
+	 */
+	default?: boolean;
+
+	/**
+	 * Build the label from the state (default: "✓ Label" / "✗ Label")
+	 */
+	format?: (label: string, enabled: boolean) => string;
+
+	/**
+	 * Called when the toggle changes, in this tab or another one
+	 */
+	onChange?: (enabled: boolean) => void;
+}
+
+export interface MenuToggle extends MenuCommand {
+	/**
+	 * Current state
+	 */
+	readonly enabled: boolean;
+
+	/**
+	 * Change the state, storing it and updating the label
+	 */
+	set(enabled: boolean): Promise<void>;
+}
+
+// Every registered command, so they can be removed on hot reload
+const commands = new Set<MenuCommand>();
+
+let nextId = 0;
+
+let cleanupRegistered = false;
+
+const defaultFormat = (label: string, enabled: boolean) =>
+	`${enabled ? "✓" : "✗"} ${label}`;
+
+// Reports a missing API right away, so the "throw" fallback policy throws
+// from the caller instead of rejecting a promise nobody awaits
+function resolveRegister() {
+	const register = resolveApi(
+		"registerMenuCommand",
+		() => GM.registerMenuCommand,
+		() => GM_registerMenuCommand,
+	);
+	if (!register) {
+		reportFallback("registerMenuCommand", "skipping the menu command");
+	}
+	return register;
+}
+
+function registerCommand(
+	label: string,
+	callback: () => void,
+	options: MenuCommandOptions & { id?: GMId },
+): Promise<GMId | undefined> {
+	const register = resolveRegister();
+	if (!register) return Promise.resolve(undefined);
+
+	return Promise.resolve(register(label, callback, options));
+}
+
+function unregisterCommand(id: GMId | undefined) {
+	if (id === undefined) return;
+
+	const unregister = resolveApi(
+		"unregisterMenuCommand",
+		() => GM.unregisterMenuCommand,
+		() => GM_unregisterMenuCommand,
+	);
+	unregister?.(id);
+}
+
+function track(command: MenuCommand) {
+	if (!cleanupRegistered) {
+		cleanupRegistered = true;
+		onCleanup(() => menu.clear());
+	}
+	commands.add(command);
+}
+
+/**
+ * Commands in the userscript manager's menu
+ */
+export const menu = {
+	/**
+	 * Add a command to the menu
+	 *
+	 * @param label - Command label
+	 * @param callback - Called when the command is clicked
+	 * @param options - Access key, tooltip and auto close
+	 * @returns Handle to unregister the command
+	 * @throws If the menu API is missing and the fallback policy is "throw"
+	 *
+	 * @example
+	 * ```ts
+	 * const command = menu.register('Export data', exportData, { accessKey: 'e' });
+	 * command.unregister();
+	 * ```
+	 */
+	register(
+		label: string,
+		callback: () => void,
+		options: MenuCommandOptions = {},
+	): MenuCommand {
+		const id = registerCommand(label, callback, options);
+
+		const command: MenuCommand = {
+			unregister() {
+				id.then(unregisterCommand);
+				commands.delete(command);
+			},
+		};
+		track(command);
+		return command;
+	},
+
+	/**
+	 * Add an on/off command bound to a storage key. The label shows the
+	 * current state and is updated when it changes, in any tab.
+	 *
+	 * @param key - Storage key holding the state
+	 * @param label - Command label
+	 * @param options - Default state, label format and change callback
+	 * @returns Handle with the current state
+	 *
+	 * @example
+	 * ```ts
+	 * const darkMode = await menu.toggle('darkMode', 'Dark mode', {
+	 *   default: true,
+	 *   onChange: (enabled) => document.body.classList.toggle('dark', enabled),
+	 * });
+	 *
+	 * if (darkMode.enabled) {
+	 *   document.body.classList.add('dark');
+	 * }
+	 * ```
+	 */
+	async toggle(
+		key: string,
+		label: string,
+		options: MenuToggleOptions = {},
+	): Promise<MenuToggle> {
+		const {
+			default: defaultValue = false,
+			format = defaultFormat,
+			onChange,
+			...commandOptions
+		} = options;
+
+		resolveRegister();
+
+		// Managers that support ids update the command in place
+		const menuId = `usx-toggle-${nextId++}`;
+		let enabled = Boolean(await storage.get(key, defaultValue));
+		let rendering: Promise<GMId | undefined> = Promise.resolve(undefined);
+		let active = true;
+
+		// Renders run one after the other, so an update never races the
+		// removal of the previous label
+		const render = () => {
+			rendering = rendering.then(async (previous) => {
+				if (previous !== menuId) {
+					unregisterCommand(previous);
+				}
+				if (!active) return undefined;
+
+				return registerCommand(
+					format(label, enabled),
+					() => {
+						toggle.set(!enabled);
+					},
+					{ ...commandOptions, id: menuId },
+				);
+			});
+		};
+
+		const update = (next: boolean) => {
+			if (next === enabled) return;
+
+			enabled = next;
+			render();
+			onChange?.(enabled);
+		};
+
+		const stopListening = storage.onChange<boolean>(key, (value) => {
+			update(value ?? defaultValue);
+		});
+
+		const toggle: MenuToggle = {
+			get enabled() {
+				return enabled;
+			},
+			async set(value) {
+				await storage.set(key, value);
+				update(value);
+			},
+			unregister() {
+				active = false;
+				stopListening();
+				rendering.then(unregisterCommand);
+				commands.delete(toggle);
+			},
+		};
+
+		render();
+		track(toggle);
+		return toggle;
+	},
+
+	/**
+	 * Remove every command registered through `menu`
+	 */
+	clear(): void {
+		for (const command of [...commands]) {
+			command.unregister();
+		}
+	},
+};
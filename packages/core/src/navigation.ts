@@ -0,0 +1,370 @@
+/**
+ * Client-side navigation detection for single-page apps
+ */
+
+import { onCleanup } from "./cleanup.js";
+import {
+	type OnElementOptions,
+	onElement,
+	type WaitForOptions,
+	waitFor,
+} from "./dom.js";
+import { getEnvironment } from "./env.js";
+
+/**
+ * `@match` pattern, path pattern starting with `/`, regular expression or
+ * function testing the URL
+ */
+export type RoutePattern = string | RegExp | ((url: URL) => boolean);
+
+export type UrlChangeListener = (url: URL, previous: URL) => void;
+
+export interface Route {
+	/**
+	 * URL that entered the route
+	 */
+	readonly url: URL;
+
+	/**
+	 * Aborted when the route is left
+	 */
+	readonly signal: AbortSignal;
+
+	/**
+	 * `onElement` that stops when the route is left
+	 */
+	onElement<T extends Element = Element>(
+		selector: string,
+		callback: (element: T) => void,
+		options?: Omit<OnElementOptions<T>, "signal">,
+	): () => void;
+
+	/**
+	 * `waitFor` that resolves with null when the route is left
+	 */
+	waitFor<T extends Element = Element>(
+		selector: string,
+		options?: Omit<WaitForOptions, "signal">,
+	): Promise<T | null>;
+}
+
+/**
+ * Called when a route is entered, may return a function called when it's
+ * left, or a promise of one. Errors of async handlers are logged.
+ */
+export type RouteHandler = (route: Route) => unknown;
+
+// How often the URL is checked when history changes made by the page can't
+// be seen
+const POLL_INTERVAL = 500;
+
+// Subset of the Navigation API, not in every browser or TypeScript lib
+interface NavigationTarget {
+	addEventListener(type: "currententrychange", listener: () => void): void;
+	removeEventListener(type: "currententrychange", listener: () => void): void;
+}
+
+const listeners = new Set<UrlChangeListener>();
+
+let currentHref = "";
+
+// Removes the history hooks, set while there are listeners
+let unhook: (() => void) | undefined;
+
+function checkUrl() {
+	const href = location.href;
+	if (href === currentHref) return;
+
+	const previous = new URL(currentHref);
+	currentHref = href;
+	const url = new URL(href);
+
+	for (const listener of [...listeners]) {
+		try {
+			listener(url, previous);
+		} catch (error) {
+			console.error("[USX] URL change listener error:", error);
+		}
+	}
+}
+
+function hook(): () => void {
+	currentHref = location.href;
+
+	const navigation = (window as { navigation?: NavigationTarget }).navigation;
+	if (navigation) {
+		// Covers pushState, replaceState, back/forward and hash changes, and
+		// its events reach sandboxed scripts too
+		navigation.addEventListener("currententrychange", checkUrl);
+		return () => navigation.removeEventListener("currententrychange", checkUrl);
+	}
+
+	// In a sandbox, `history` is the sandbox's own wrapper and the page's
+	// pushState calls never go through the patched methods, so poll instead
+	const poll =
+		getEnvironment().sandbox === "page"
+			? undefined
+			: setInterval(checkUrl, POLL_INTERVAL);
+
+	const { pushState, replaceState } = history;
+	const patchedPushState: History["pushState"] = function (
+		this: History,
+		...args
+	) {
+		pushState.apply(this, args);
+		checkUrl();
+	};
+	const patchedReplaceState: History["replaceState"] = function (
+		this: History,
+		...args
+	) {
+		replaceState.apply(this, args);
+		checkUrl();
+	};
+
+	history.pushState = patchedPushState;
+	history.replaceState = patchedReplaceState;
+	window.addEventListener("popstate", checkUrl);
+	window.addEventListener("hashchange", checkUrl);
+
+	return () => {
+		clearInterval(poll);
+		// Leave the methods alone if something else patched them since
+		if (history.pushState === patchedPushState) {
+			history.pushState = pushState;
+		}
+		if (history.replaceState === patchedReplaceState) {
+			history.replaceState = replaceState;
+		}
+		window.removeEventListener("popstate", checkUrl);
+		window.removeEventListener("hashchange", checkUrl);
+	};
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Glob where * matches any characters
+function globToRegExp(glob: string): string {
+	return glob.split("*").map(escapeRegExp).join(".*");
+}
+
+/**
+ * Check whether a URL matches a `@match` pattern
+ *
+ * Patterns starting with `/` match the path and query on any host, e.g.
+ * `/watch*`.
+ *
+ * @param pattern - Match pattern, e.g. `https://*.example.com/posts/*`
+ * @param url - URL to test (default: the current URL)
+ * @returns Whether the URL matches
+ *
+ * @example
+ * ```ts
+ * matchUrl('*://example.com/posts/*', 'https://example.com/posts/1'); // true
+ * ```
+ */
+export function matchUrl(
+	pattern: string,
+	url: string | URL = location.href,
+): boolean {
+	const target = new URL(url);
+	const pathAndQuery = target.pathname + target.search;
+
+	if (pattern === "<all_urls>") return true;
+	if (pattern.startsWith("/")) {
+		return new RegExp(`^${globToRegExp(pattern)}$`).test(pathAndQuery);
+	}
+
+	const parts = /^([^:/]+):\/\/([^/]*)(\/.*)$/.exec(pattern);
+	if (!parts) {
+		throw new Error(`Invalid match pattern: ${pattern}`);
+	}
+	const [, scheme, host, path] = parts;
+
+	const protocol = target.protocol.slice(0, -1);
+	if (
+		scheme === "*"
+			? protocol !== "http" && protocol !== "https"
+			: scheme !== protocol
+	) {
+		return false;
+	}
+
+	if (host !== "*") {
+		const [hostname, port] = host.split(":");
+		if (port !== undefined && port !== "*" && port !== target.port) {
+			return false;
+		}
+		if (hostname.startsWith("*.")) {
+			const domain = hostname.slice(2);
+			if (
+				target.hostname !== domain &&
+				!target.hostname.endsWith(`.${domain}`)
+			) {
+				return false;
+			}
+		} else if (hostname !== target.hostname) {
+			return false;
+		}
+	}
+
+	return new RegExp(`^${globToRegExp(path)}$`).test(pathAndQuery);
+}
+
+function testPattern(pattern: RoutePattern, url: URL): boolean {
+	if (typeof pattern === "function") return pattern(url);
+	if (pattern instanceof RegExp) return pattern.test(url.href);
+	return matchUrl(pattern, url);
+}
+
+/**
+ * Call a function when the URL changes without a page load, e.g. through
+ * `history.pushState`, back/forward or a hash change
+ *
+ * Listening stops when the script is hot reloaded.
+ *
+ * @param callback - Called with the new and previous URL
+ * @returns Function to stop listening
+ *
+ * @example
+ * ```ts
+ * const stop = onUrlChange((url, previous) => {
+ *   console.log(`Navigated from ${previous.pathname} to ${url.pathname}`);
+ * });
+ * ```
+ */
+export function onUrlChange(callback: UrlChangeListener): () => void {
+	if (!unhook) {
+		unhook = hook();
+	}
+
+	// Wrapped so the same function can be added more than once
+	const listener: UrlChangeListener = (url, previous) =>
+		callback(url, previous);
+	listeners.add(listener);
+
+	const stop = () => {
+		removeCleanup();
+		listeners.delete(listener);
+		if (listeners.size === 0) {
+			unhook?.();
+			unhook = undefined;
+		}
+	};
+	const removeCleanup = onCleanup(stop);
+
+	return stop;
+}
+
+/**
+ * Run a handler while the URL matches a route, including the current URL.
+ * The handler runs again when the URL changes to another matching URL.
+ *
+ * The cleanup returned by the handler, or resolved by an async one, runs
+ * when the route is left, and the route's `onElement` and `waitFor` stop
+ * with it. `route.waitFor` then
+ * resolves with null, so async handlers can return early.
+ *
+ * @param pattern - Route pattern, or several of them
+ * @param handler - Called when the route is entered
+ * @returns Function to stop matching, leaving the route if it's active
+ *
+ * @example
+ * ```ts
+ * onRoute('https://www.youtube.com/watch*', (route) => {
+ *   console.log('Watching', route.url.searchParams.get('v'));
+ *
+ *   route.onElement('#comments', hideComments);
+ *
+ *   const timer = setInterval(saveProgress, 5000);
+ *   return () => clearInterval(timer);
+ * });
+ * ```
+ */
+export function onRoute(
+	pattern: RoutePattern | RoutePattern[],
+	handler: RouteHandler,
+): () => void {
+	const patterns = Array.isArray(pattern) ? pattern : [pattern];
+
+	// Leaves the active route, if any
+	let leave: (() => void) | undefined;
+
+	const enter = (url: URL) => {
+		const controller = new AbortController();
+		const { signal } = controller;
+
+		const route: Route = {
+			url,
+			signal,
+			onElement: (selector, callback, options) =>
+				onElement(selector, callback, { ...options, signal }),
+			waitFor: <T extends Element>(
+				selector: string,
+				options?: Omit<WaitForOptions, "signal">,
+			) =>
+				waitFor<T>(selector, { ...options, signal }).catch((error) => {
+					if (signal.aborted) return null;
+					throw error;
+				}),
+		};
+
+		const runCleanup = (cleanup: unknown) => {
+			try {
+				if (typeof cleanup === "function") cleanup();
+			} catch (error) {
+				console.error("[USX] Route cleanup error:", error);
+			}
+		};
+
+		let cleanup: unknown;
+		try {
+			cleanup = handler(route);
+		} catch (error) {
+			console.error("[USX] Route handler error:", error);
+		}
+		if (cleanup instanceof Promise) {
+			// The cleanup of an async handler runs right away if the route was
+			// left before the handler finished
+			cleanup.then(
+				(result) => {
+					if (signal.aborted) {
+						runCleanup(result);
+					} else {
+						cleanup = result;
+					}
+				},
+				(error) => {
+					console.error("[USX] Route handler error:", error);
+				},
+			);
+		}
+
+		leave = () => {
+			leave = undefined;
+			controller.abort();
+			runCleanup(cleanup);
+		};
+	};
+
+	const update = (url: URL) => {
+		leave?.();
+		if (patterns.some((item) => testPattern(item, url))) {
+			enter(url);
+		}
+	};
+
+	const stopListening = onUrlChange(update);
+	update(new URL(location.href));
+
+	const stop = () => {
+		removeCleanup();
+		stopListening();
+		leave?.();
+	};
+	const removeCleanup = onCleanup(stop);
+
+	return stop;
+}
@@ -0,0 +1,342 @@
+/**
+ * Shared MutationObserver per root, batching mutations per animation frame
+ */
+
+import { onCleanup } from "./cleanup.js";
+
+// Set by the dev build
+declare const __USX_DEV__: boolean | undefined;
+
+const DEV = typeof __USX_DEV__ !== "undefined" && __USX_DEV__;
+
+export interface ObserverMetrics {
+	/** Roots being observed */
+	roots: number;
+	/** Active watchers */
+	watchers: number;
+	/** Batches of mutations dispatched */
+	batches: number;
+	/** Mutation records processed */
+	mutations: number;
+	/** Watcher callbacks called */
+	callbacks: number;
+	/** Time spent dispatching batches, in milliseconds */
+	time: number;
+}
+
+export interface ObserverSubscription {
+	/**
+	 * Attributes to observe besides added and removed nodes, `true` for all
+	 */
+	attributes?: readonly string[] | true;
+
+	/**
+	 * Observe text node changes too
+	 */
+	characterData?: boolean;
+
+	/**
+	 * Called with every batch of mutation records
+	 */
+	onMutations?: (records: MutationRecord[]) => void;
+
+	/**
+	 * Selector of the elements reported to `onAdded` and `onRemoved`
+	 */
+	selector?: string;
+
+	/**
+	 * Called for each added element matching the selector, including
+	 * descendants of added nodes
+	 */
+	onAdded?: (element: Element) => void;
+
+	/**
+	 * Called for each element matching the selector that left the root
+	 */
+	onRemoved?: (element: Element) => void;
+}
+
+interface SharedObserver {
+	observer: MutationObserver;
+	subscriptions: Set<ObserverSubscription>;
+	pending: MutationRecord[];
+	// Cancels the scheduled flush
+	cancel?: () => void;
+}
+
+// Animation frames are paused in background tabs, so flush after this delay
+// at the latest
+const MAX_DELAY = 100;
+
+// One observer per root, shared by every watcher on it
+const observers = new Map<Node, SharedObserver>();
+
+const metrics = { batches: 0, mutations: 0, callbacks: 0, time: 0 };
+
+function call<T>(callback: (value: T) => void, value: T) {
+	if (DEV) metrics.callbacks++;
+
+	try {
+		callback(value);
+	} catch (error) {
+		console.error("[USX] Mutation callback error:", error);
+	}
+}
+
+// The node itself and its descendants matching the selector
+function findMatches(node: Node, selector: string): Element[] {
+	if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+	const element = node as Element;
+	const matches = Array.from(element.querySelectorAll(selector));
+	if (element.matches(selector)) {
+		matches.unshift(element);
+	}
+	return matches;
+}
+
+// Nodes without an ancestor in the set, so each subtree is searched once
+function topmost(nodes: Set<Node>): Node[] {
+	return [...nodes].filter((node) => {
+		for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+			if (nodes.has(parent)) return false;
+		}
+		return true;
+	});
+}
+
+// Search every subtree once for all selectors, then hand each match to the
+// subscriptions it matches
+function dispatchElements(
+	shared: SharedObserver,
+	nodes: Node[],
+	subscriptions: ObserverSubscription[],
+	kind: "onAdded" | "onRemoved",
+) {
+	if (nodes.length === 0 || subscriptions.length === 0) return;
+
+	const selector = [
+		...new Set(subscriptions.map((item) => item.selector)),
+	].join(",");
+
+	for (const node of nodes) {
+		for (const element of findMatches(node, selector)) {
+			for (const subscription of subscriptions) {
+				const callback = subscription[kind];
+				if (
+					callback &&
+					shared.subscriptions.has(subscription) &&
+					element.matches(subscription.selector as string)
+				) {
+					call(callback, element);
+				}
+			}
+		}
+	}
+}
+
+function flush(root: Node, shared: SharedObserver) {
+	shared.cancel?.();
+	shared.cancel = undefined;
+
+	const records = [...shared.pending, ...shared.observer.takeRecords()];
+	shared.pending = [];
+	if (records.length === 0) return;
+
+	const start = DEV ? performance.now() : 0;
+	const subscriptions = [...shared.subscriptions];
+
+	for (const subscription of subscriptions) {
+		// Skip those removed by an earlier callback in this batch
+		if (subscription.onMutations && shared.subscriptions.has(subscription)) {
+			call(subscription.onMutations, records);
+		}
+	}
+
+	const watchers = subscriptions.filter((item) => item.selector);
+	if (watchers.length > 0) {
+		const added = new Set<Node>();
+		const removed = new Set<Node>();
+		for (const record of records) {
+			for (const node of Array.from(record.removedNodes)) {
+				// Added and removed again within the batch, never seen
+				if (!added.delete(node)) removed.add(node);
+			}
+			for (const node of Array.from(record.addedNodes)) {
+				added.add(node);
+			}
+		}
+
+		// Moved nodes are removed and added back, and nodes added within the
+		// batch may be gone with an ancestor
+		for (const node of removed) {
+			if (root.contains(node)) removed.delete(node);
+		}
+		for (const node of added) {
+			if (!root.contains(node)) added.delete(node);
+		}
+
+		dispatchElements(
+			shared,
+			topmost(removed),
+			watchers.filter((item) => item.onRemoved),
+			"onRemoved",
+		);
+		dispatchElements(
+			shared,
+			topmost(added),
+			watchers.filter((item) => item.onAdded),
+			"onAdded",
+		);
+	}
+
+	if (DEV) {
+		metrics.batches++;
+		metrics.mutations += records.length;
+		metrics.time += performance.now() - start;
+	}
+}
+
+function schedule(root: Node, shared: SharedObserver) {
+	if (shared.cancel) return;
+
+	const run = () => flush(root, shared);
+	const frame =
+		typeof requestAnimationFrame === "function"
+			? requestAnimationFrame(run)
+			: undefined;
+	const timer = setTimeout(run, MAX_DELAY);
+
+	shared.cancel = () => {
+		if (frame !== undefined) cancelAnimationFrame(frame);
+		clearTimeout(timer);
+	};
+}
+
+// Observe what any subscription on the root needs
+function configure(root: Node, shared: SharedObserver) {
+	const attributeFilter = new Set<string>();
+	let allAttributes = false;
+	let characterData = false;
+	for (const subscription of shared.subscriptions) {
+		if (subscription.attributes === true) {
+			allAttributes = true;
+		} else {
+			for (const name of subscription.attributes ?? []) {
+				attributeFilter.add(name);
+			}
+		}
+		characterData ||= subscription.characterData ?? false;
+	}
+
+	const options: MutationObserverInit = {
+		childList: true,
+		subtree: true,
+		characterData,
+	};
+	if (allAttributes || attributeFilter.size > 0) {
+		options.attributes = true;
+		options.attributeOldValue = true;
+		if (!allAttributes) {
+			options.attributeFilter = [...attributeFilter];
+		}
+	}
+
+	// Observing the same root again replaces the options
+	shared.observer.observe(root, options);
+}
+
+function subscribe(root: Node, subscription: ObserverSubscription): () => void {
+	if (subscription.selector !== undefined) {
+		// Throw on invalid selectors now rather than in a later batch
+		document.createDocumentFragment().querySelector(subscription.selector);
+	}
+
+	let shared = observers.get(root);
+	if (!shared) {
+		const created: SharedObserver = {
+			observer: new MutationObserver((records) => {
+				created.pending.push(...records);
+				schedule(root, created);
+			}),
+			subscriptions: new Set(),
+			pending: [],
+		};
+		shared = created;
+		observers.set(root, shared);
+	}
+
+	shared.subscriptions.add(subscription);
+	configure(root, shared);
+
+	const current = shared;
+	return () => {
+		if (!current.subscriptions.delete(subscription)) return;
+
+		if (current.subscriptions.size === 0) {
+			current.cancel?.();
+			current.observer.disconnect();
+			observers.delete(root);
+		} else {
+			configure(root, current);
+		}
+	};
+}
+
+/**
+ * Watch mutations under a root until stopped, aborted or hot reloaded
+ *
+ * @param root - Node to observe, with its subtree
+ * @param subscription - What to observe and the callbacks
+ * @param signal - Stops watching when aborted
+ * @returns Function to stop watching
+ */
+export function watch(
+	root: Node,
+	subscription: ObserverSubscription,
+	signal?: AbortSignal,
+): () => void {
+	if (signal?.aborted) return () => {};
+
+	let stopped = false;
+	const unsubscribe = subscribe(root, subscription);
+
+	const stop = () => {
+		if (stopped) return;
+
+		stopped = true;
+		unsubscribe();
+		signal?.removeEventListener("abort", stop);
+		removeCleanup();
+	};
+	const removeCleanup = onCleanup(stop);
+	signal?.addEventListener("abort", stop, { once: true });
+
+	return stop;
+}
+
+/**
+ * Get metrics of the observers shared by the DOM helpers, collected in dev
+ * builds only
+ *
+ * @returns Metrics, or undefined outside dev builds
+ *
+ * @example
+ * ```ts
+ * const metrics = getObserverMetrics();
+ * if (metrics) {
+ *   console.log(`${metrics.callbacks} callbacks in ${metrics.time.toFixed(1)}ms`);
+ * }
+ * ```
+ */
+export function getObserverMetrics(): ObserverMetrics | undefined {
+	if (!DEV) return undefined;
+
+	let watchers = 0;
+	for (const shared of observers.values()) {
+		watchers += shared.subscriptions.size;
+	}
+
+	return { roots: observers.size, watchers, ...metrics };
+}
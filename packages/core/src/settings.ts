@@ -0,0 +1,307 @@
+/**
+ * Typed, validated settings on top of userscript storage
+ */
+
+import { getEnvironment } from "./env.js";
+import { ScopedStorage } from "./storage.js";
+
+export interface SettingField<T = unknown> {
+	/**
+	 * Value used when nothing valid is stored. Its type is also the type
+	 * stored values are checked against.
+	 */
+	default: T;
+
+	/**
+	 * Allowed values
+	 */
+	choices?: readonly T[];
+
+	/**
+	 * Minimum value for numbers
+	 */
+	min?: number;
+
+	/**
+	 * Maximum value for numbers
+	 */
+	max?: number;
+
+	/**
+	 * Additional check for stored and new values
+	 */
+	validate?: (value: unknown) => boolean;
+}
+
+export type SettingsSchema = Record<string, SettingField>;
+
+/**
+ * Values of a settings schema, keyed by setting name
+ */
+export type SettingsValues<S extends SettingsSchema> = {
+	[K in keyof S]: S[K]["default"];
+};
+
+/**
+ * Migration run on the raw stored values, returning the values to store.
+ * Keys left out or set to undefined are deleted.
+ */
+export type SettingsMigration = (
+	values: Record<string, unknown>,
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+export interface DefineSettingsOptions {
+	/**
+	 * Prefix for the storage keys (default: `settings:`)
+	 */
+	prefix?: string;
+
+	/**
+	 * Current script version (default: GM_info.script.version)
+	 */
+	version?: string;
+
+	/**
+	 * Migrations keyed by the script version that introduced them. Each one
+	 * runs once, when updating from an older version. If no version was
+	 * stored yet, every migration up to the current version runs.
+	 */
+	migrations?: Record<string, SettingsMigration>;
+}
+
+export type SettingsListener<T> = (
+	value: T,
+	oldValue: T,
+	remote: boolean,
+) => void;
+
+export interface Settings<S extends SettingsSchema> {
+	/**
+	 * Schema the settings were defined with
+	 */
+	readonly schema: S;
+
+	/**
+	 * Resolves once pending migrations have run
+	 */
+	ready: Promise<void>;
+
+	/**
+	 * Get a setting, falling back to its default if the stored value is invalid
+	 */
+	get<K extends keyof S & string>(key: K): Promise<SettingsValues<S>[K]>;
+
+	/**
+	 * Set a setting, throwing if the value doesn't match the schema
+	 */
+	set<K extends keyof S & string>(
+		key: K,
+		value: SettingsValues<S>[K],
+	): Promise<void>;
+
+	/**
+	 * Get every setting
+	 */
+	getAll(): Promise<SettingsValues<S>>;
+
+	/**
+	 * Restore one setting, or all of them, to the default
+	 */
+	reset(key?: keyof S & string): Promise<void>;
+
+	/**
+	 * Call a function when a setting changes, in this tab or another one
+	 *
+	 * @returns Function to unsubscribe
+	 */
+	subscribe<K extends keyof S & string>(
+		key: K,
+		callback: SettingsListener<SettingsValues<S>[K]>,
+	): () => void;
+}
+
+// Compare two dotted versions numerically, e.g. 1.10.0 > 1.9.0
+function compareVersions(a: string, b: string): number {
+	const left = a.split(/[.-]/).map((part) => Number.parseInt(part, 10) || 0);
+	const right = b.split(/[.-]/).map((part) => Number.parseInt(part, 10) || 0);
+
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const diff = (left[i] ?? 0) - (right[i] ?? 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
+
+function isValid(field: SettingField, value: unknown): boolean {
+	const expected = field.default;
+
+	if (Array.isArray(expected)) {
+		if (!Array.isArray(value)) return false;
+	} else if (expected !== null && typeof value !== typeof expected) {
+		return false;
+	}
+
+	if (typeof value === "number") {
+		if (Number.isNaN(value)) return false;
+		if (field.min !== undefined && value < field.min) return false;
+		if (field.max !== undefined && value > field.max) return false;
+	}
+
+	if (field.choices && !field.choices.includes(value)) {
+		return false;
+	}
+
+	return field.validate ? field.validate(value) : true;
+}
+
+/**
+ * Define typed settings with defaults, validation and migrations
+ *
+ * @param schema - Settings and their defaults
+ * @param options - Storage prefix, script version and migrations
+ * @returns Typed settings accessors
+ *
+ * @example
+ * ```ts
+ * const settings = defineSettings({
+ *   theme: { default: 'dark', choices: ['dark', 'light'] },
+ *   pageSize: { default: 20, min: 10, max: 100 },
+ * }, {
+ *   migrations: {
+ *     '2.0.0': (values) => ({ ...values, pageSize: values.perPage }),
+ *   },
+ * });
+ *
+ * const theme = await settings.get('theme');
+ * settings.subscribe('theme', (value) => applyTheme(value));
+ * ```
+ */
+export function defineSettings<S extends SettingsSchema>(
+	schema: S,
+	options: DefineSettingsOptions = {},
+): Settings<S> {
+	const { prefix = "settings:", migrations = {} } = options;
+	const keys = Object.keys(schema) as (keyof S & string)[];
+	const store = new ScopedStorage(prefix);
+	const versionKey = "__version__";
+
+	const read = async <K extends keyof S & string>(
+		key: K,
+	): Promise<SettingsValues<S>[K]> => {
+		const field = schema[key];
+		const value = await store.get<unknown>(key);
+
+		if (value === undefined) {
+			return field.default as SettingsValues<S>[K];
+		}
+
+		if (!isValid(field, value)) {
+			console.warn(
+				`[settings] Ignoring invalid stored value for "${key}":`,
+				value,
+			);
+			return field.default as SettingsValues<S>[K];
+		}
+
+		return value as SettingsValues<S>[K];
+	};
+
+	const migrate = async () => {
+		const current = options.version ?? getEnvironment().scriptVersion;
+		if (!current) return;
+
+		// Also missing when updating from a version without settings, so
+		// every migration runs; on a fresh install they see no values
+		const previous = (await store.get<string>(versionKey)) ?? "0";
+
+		const pending = Object.keys(migrations)
+			.filter(
+				(version) =>
+					compareVersions(version, previous) > 0 &&
+					compareVersions(version, current) <= 0,
+			)
+			.sort(compareVersions);
+
+		if (pending.length > 0) {
+			// Without a prefix the store is shared, so only the schema's keys
+			// are the settings'
+			const stored = (await store.listKeys()).filter(
+				(key) => key !== versionKey && (prefix !== "" || key in schema),
+			);
+			let values = await store.getMany(stored);
+
+			for (const version of pending) {
+				values = await migrations[version](values);
+			}
+
+			for (const [key, value] of Object.entries(values)) {
+				if (value === undefined) {
+					delete values[key];
+				}
+			}
+			await store.setMany(values);
+
+			// Drop keys the migrations removed
+			for (const key of stored) {
+				if (!(key in values)) {
+					await store.delete(key);
+				}
+			}
+		}
+
+		if (previous !== current) {
+			await store.set(versionKey, current);
+		}
+	};
+
+	const ready = migrate();
+
+	const write = async (key: keyof S & string, value: unknown) => {
+		await ready;
+		await store.set(key, value);
+	};
+
+	return {
+		schema,
+		ready,
+
+		async get(key) {
+			await ready;
+			return read(key);
+		},
+
+		async set(key, value) {
+			if (!isValid(schema[key], value)) {
+				throw new TypeError(`Invalid value for setting "${key}": ${value}`);
+			}
+			await write(key, value);
+		},
+
+		async getAll() {
+			await ready;
+			const values = {} as SettingsValues<S>;
+			for (const key of keys) {
+				values[key] = await read(key);
+			}
+			return values;
+		},
+
+		async reset(key) {
+			for (const name of key ? [key] : keys) {
+				await write(name, schema[name].default);
+			}
+		},
+
+		subscribe(key, callback) {
+			const field = schema[key];
+			const normalize = (value: unknown) =>
+				(value === undefined || !isValid(field, value)
+					? field.default
+					: value) as SettingsValues<S>[typeof key];
+
+			return store.onChange(key, (value, oldValue, remote) => {
+				callback(normalize(value), normalize(oldValue), remote);
+			});
+		},
+	};
+}
@@ -2,10 +2,76 @@
  * Storage utilities with type-safe wrappers around GM storage APIs
  */
 
+import { StorageCache } from "./cache.js";
+import { getEnvironment, reportFallback, resolveApi } from "./env.js";
+
 /**
- * Type-safe wrapper around GM_getValue/GM_setValue
+ * Called when a stored value changes
  */
-export const storage = {
+export type StorageChangeListener<T = unknown> = (
+	newValue: T | undefined,
+	oldValue: T | undefined,
+	remote: boolean,
+) => void;
+
+// Listeners for the localStorage fallback, which has no local change events
+const localListeners = new Map<string, Set<StorageChangeListener>>();
+
+let fallbackPrefix: string | undefined;
+
+// The page's localStorage is shared with the site and other scripts, so
+// fallback keys are prefixed with the script name
+function getFallbackPrefix(): string {
+	if (fallbackPrefix === undefined) {
+		fallbackPrefix = `usx:${getEnvironment().scriptName ?? "userscript"}:`;
+	}
+	return fallbackPrefix;
+}
+
+function parseStored<T>(stored: string | null): T | undefined {
+	if (stored === null) {
+		return undefined;
+	}
+
+	try {
+		return JSON.parse(stored) as T;
+	} catch {
+		return stored as T;
+	}
+}
+
+function notifyLocal(key: string, newValue: unknown, oldValue: unknown) {
+	for (const listener of localListeners.get(key) ?? []) {
+		listener(newValue, oldValue, false);
+	}
+}
+
+/**
+ * Type-safe wrapper around GM_getValue/GM_setValue, scoped to a key prefix
+ */
+export class ScopedStorage {
+	private cacheStore?: StorageCache;
+
+	/**
+	 * @param prefix - Prefix added to every key of this store
+	 */
+	constructor(readonly prefix = "") {}
+
+	/**
+	 * Expiring cache kept in the `cache` namespace of this store
+	 *
+	 * @example
+	 * ```ts
+	 * const user = await storage.cache.fetch('user', () => loadUser(), {
+	 *   ttl: 60_000,
+	 * });
+	 * ```
+	 */
+	get cache(): StorageCache {
+		this.cacheStore ??= new StorageCache(this.namespace("cache"));
+		return this.cacheStore;
+	}
+
 	/**
 	 * Get a value from userscript storage
 	 *
@@ -20,26 +86,37 @@ export const storage = {
 	 * ```
 	 */
 	async get<T = unknown>(key: string, defaultValue?: T): Promise<T> {
-		if (typeof GM !== "undefined" && GM.getValue) {
-			return GM.getValue(key, defaultValue);
+		const getValue = resolveApi(
+			"getValue",
+			() => GM.getValue,
+			() => GM_getValue,
+		);
+		if (getValue) {
+			return getValue(this.prefix + key, defaultValue) as T | Promise<T>;
 		}
 
-		if (typeof GM_getValue !== "undefined") {
-			return GM_getValue(key, defaultValue);
+		// Fallback to localStorage if GM APIs not available
+		reportFallback("getValue", "using localStorage instead");
+		const fallbackKey = this.fallbackKey(key);
+		let stored = localStorage.getItem(fallbackKey);
+
+		// Earlier versions stored values without the script prefix, move them
+		// over on first read
+		if (stored === null) {
+			const legacyKey = this.prefix + key;
+			stored = localStorage.getItem(legacyKey);
+			if (stored !== null) {
+				localStorage.setItem(fallbackKey, stored);
+				localStorage.removeItem(legacyKey);
+			}
 		}
 
-		// Fallback to localStorage if GM APIs not available
-		const stored = localStorage.getItem(key);
 		if (stored === null) {
 			return defaultValue as T;
 		}
 
-		try {
-			return JSON.parse(stored) as T;
-		} catch {
-			return stored as T;
-		}
-	},
+		return parseStored<T>(stored) as T;
+	}
 
 	/**
 	 * Set a value in userscript storage
@@ -54,19 +131,24 @@ export const storage = {
 	 * ```
 	 */
 	async set<T = unknown>(key: string, value: T): Promise<void> {
-		if (typeof GM !== "undefined" && GM.setValue) {
-			return GM.setValue(key, value);
-		}
-
-		if (typeof GM_setValue !== "undefined") {
-			return GM_setValue(key, value);
+		const setValue = resolveApi(
+			"setValue",
+			() => GM.setValue,
+			() => GM_setValue,
+		);
+		if (setValue) {
+			return setValue(this.prefix + key, value);
 		}
 
 		// Fallback to localStorage if GM APIs not available
+		reportFallback("setValue", "using localStorage instead");
+		const fallbackKey = this.fallbackKey(key);
+		const oldValue = parseStored(localStorage.getItem(fallbackKey));
 		const serialized =
 			typeof value === "string" ? value : JSON.stringify(value);
-		localStorage.setItem(key, serialized);
-	},
+		localStorage.setItem(fallbackKey, serialized);
+		notifyLocal(fallbackKey, value, oldValue);
+	}
 
 	/**
 	 * Delete a value from userscript storage
@@ -79,22 +161,27 @@ export const storage = {
 	 * ```
 	 */
 	async delete(key: string): Promise<void> {
-		if (typeof GM !== "undefined" && GM.deleteValue) {
-			return GM.deleteValue(key);
-		}
-
-		if (typeof GM_deleteValue !== "undefined") {
-			return GM_deleteValue(key);
+		const deleteValue = resolveApi(
+			"deleteValue",
+			() => GM.deleteValue,
+			() => GM_deleteValue,
+		);
+		if (deleteValue) {
+			return deleteValue(this.prefix + key);
 		}
 
 		// Fallback to localStorage
-		localStorage.removeItem(key);
-	},
+		reportFallback("deleteValue", "using localStorage instead");
+		const fallbackKey = this.fallbackKey(key);
+		const oldValue = parseStored(localStorage.getItem(fallbackKey));
+		localStorage.removeItem(fallbackKey);
+		notifyLocal(fallbackKey, undefined, oldValue);
+	}
 
 	/**
-	 * List all keys in userscript storage
+	 * List all keys in this store
 	 *
-	 * @returns Array of storage keys
+	 * @returns Array of storage keys, without the store prefix
 	 *
 	 * @example
 	 * ```ts
@@ -103,15 +190,219 @@ export const storage = {
 	 * ```
 	 */
 	async listKeys(): Promise<string[]> {
-		if (typeof GM !== "undefined" && GM.listValues) {
-			return GM.listValues();
+		const listValues = resolveApi(
+			"listValues",
+			() => GM.listValues,
+			() => GM_listValues,
+		);
+		let keys: string[];
+		let prefix = this.prefix;
+
+		if (listValues) {
+			keys = await listValues();
+		} else {
+			// Fallback to localStorage, skipping the site's own keys
+			reportFallback("listValues", "using localStorage instead");
+			keys = Object.keys(localStorage);
+			prefix = getFallbackPrefix() + prefix;
 		}
 
-		if (typeof GM_listValues !== "undefined") {
-			return GM_listValues();
+		return keys
+			.filter((key) => key.startsWith(prefix))
+			.map((key) => key.slice(prefix.length));
+	}
+
+	/**
+	 * Delete every value in this store
+	 *
+	 * @example
+	 * ```ts
+	 * await storage.namespace('cache').clear();
+	 * ```
+	 */
+	async clear(): Promise<void> {
+		for (const key of await this.listKeys()) {
+			await this.delete(key);
 		}
+	}
 
-		// Fallback to localStorage
-		return Object.keys(localStorage);
-	},
-};
+	/**
+	 * Get several values at once
+	 *
+	 * @param keys - Storage keys, or an object of keys and their default values
+	 * @returns Object of keys and stored values
+	 *
+	 * @example
+	 * ```ts
+	 * const { count, theme } = await storage.getMany({ count: 0, theme: 'dark' });
+	 * ```
+	 */
+	async getMany<T extends Record<string, unknown>>(
+		keys: T | (keyof T & string)[],
+	): Promise<T> {
+		const defaults: Record<string, unknown> = Array.isArray(keys)
+			? Object.fromEntries(keys.map((key) => [key, undefined]))
+			: keys;
+
+		const values: Record<string, unknown> = {};
+		for (const [key, defaultValue] of Object.entries(defaults)) {
+			values[key] = await this.get(key, defaultValue);
+		}
+		return values as T;
+	}
+
+	/**
+	 * Set several values at once
+	 *
+	 * @param values - Object of keys and values to store
+	 *
+	 * @example
+	 * ```ts
+	 * await storage.setMany({ count: 42, theme: 'light' });
+	 * ```
+	 */
+	async setMany(values: Record<string, unknown>): Promise<void> {
+		for (const [key, value] of Object.entries(values)) {
+			await this.set(key, value);
+		}
+	}
+
+	/**
+	 * Export every value in this store as JSON, e.g. for backups
+	 *
+	 * @example
+	 * ```ts
+	 * const backup = await storage.exportJSON();
+	 * ```
+	 */
+	async exportJSON(): Promise<string> {
+		return JSON.stringify(await this.getMany(await this.listKeys()));
+	}
+
+	/**
+	 * Import values exported with `exportJSON`
+	 *
+	 * @param json - Exported values
+	 * @param options - Set `clear` to delete the current values first
+	 *
+	 * @example
+	 * ```ts
+	 * await storage.importJSON(backup, { clear: true });
+	 * ```
+	 */
+	async importJSON(
+		json: string,
+		options: { clear?: boolean } = {},
+	): Promise<void> {
+		const values: unknown = JSON.parse(json);
+		if (
+			typeof values !== "object" ||
+			values === null ||
+			Array.isArray(values)
+		) {
+			throw new Error("Storage import must be a JSON object");
+		}
+
+		if (options.clear) {
+			await this.clear();
+		}
+		await this.setMany(values as Record<string, unknown>);
+	}
+
+	/**
+	 * Get a store whose keys are prefixed with `<prefix>:`
+	 *
+	 * @param prefix - Namespace name
+	 * @returns Scoped store, which can be namespaced further
+	 *
+	 * @example
+	 * ```ts
+	 * const cache = storage.namespace('cache');
+	 * await cache.set('user', user); // Stored as "cache:user"
+	 * ```
+	 */
+	namespace(prefix: string): ScopedStorage {
+		return new ScopedStorage(`${this.prefix}${prefix}:`);
+	}
+
+	/**
+	 * Listen for changes to a value, made by this tab or another one
+	 *
+	 * @param key - Storage key
+	 * @param callback - Called with the new value, the old value and whether
+	 * the change came from another tab
+	 * @returns Function to stop listening
+	 *
+	 * @example
+	 * ```ts
+	 * const unsubscribe = storage.onChange<number>('count', (value, old, remote) => {
+	 *   console.log(`count ${old} -> ${value}`, remote ? 'in another tab' : '');
+	 * });
+	 * ```
+	 */
+	onChange<T = unknown>(
+		key: string,
+		callback: StorageChangeListener<T>,
+	): () => void {
+		const listener = (
+			_name: string,
+			oldValue: unknown,
+			newValue: unknown,
+			remote: boolean,
+		) => {
+			callback(newValue as T | undefined, oldValue as T | undefined, remote);
+		};
+
+		const addListener = resolveApi(
+			"addValueChangeListener",
+			() => GM.addValueChangeListener,
+			() => GM_addValueChangeListener,
+		);
+		if (addListener) {
+			const id = addListener(this.prefix + key, listener);
+			return () => {
+				const removeListener = resolveApi(
+					"removeValueChangeListener",
+					() => GM.removeValueChangeListener,
+					() => GM_removeValueChangeListener,
+				);
+				Promise.resolve(id).then((listenerId) => removeListener?.(listenerId));
+			};
+		}
+
+		// Fallback to localStorage: local changes are dispatched by set/delete,
+		// changes from other tabs arrive as storage events
+		reportFallback("addValueChangeListener", "using storage events instead");
+		const fallbackKey = this.fallbackKey(key);
+		const local = callback as StorageChangeListener;
+		const listeners = localListeners.get(fallbackKey) ?? new Set();
+		listeners.add(local);
+		localListeners.set(fallbackKey, listeners);
+
+		const onStorage = (event: StorageEvent) => {
+			if (event.storageArea !== localStorage || event.key !== fallbackKey) {
+				return;
+			}
+			callback(
+				parseStored<T>(event.newValue),
+				parseStored<T>(event.oldValue),
+				true,
+			);
+		};
+		window.addEventListener("storage", onStorage);
+
+		return () => {
+			listeners.delete(local);
+			window.removeEventListener("storage", onStorage);
+		};
+	}
+
+	private fallbackKey(key: string): string {
+		return getFallbackPrefix() + this.prefix + key;
+	}
+}
+
+/**
+ * Userscript storage, see {@link ScopedStorage}
+ */
+export const storage = /* @__PURE__ */ new ScopedStorage();
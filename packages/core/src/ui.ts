@@ -0,0 +1,788 @@
+/**
+ * UI components isolated from the page's styles in a shadow root
+ */
+
+import { onCleanup } from "./cleanup.js";
+import type { Settings, SettingsSchema, SettingsValues } from "./settings.js";
+
+export type Theme = "auto" | "light" | "dark";
+
+export interface PanelOptions {
+	/**
+	 * Title shown in the header
+	 */
+	title?: string;
+
+	/**
+	 * Text or element shown in the body
+	 */
+	content?: string | Node;
+
+	/**
+	 * Distance in pixels from the viewport edges (default: top 16, right 16)
+	 */
+	position?: { top?: number; right?: number; bottom?: number; left?: number };
+
+	/**
+	 * CSS width of the panel
+	 */
+	width?: string;
+
+	/**
+	 * Allow moving the panel by its header (default: true)
+	 */
+	draggable?: boolean;
+
+	/**
+	 * Show a close button (default: true)
+	 */
+	closable?: boolean;
+
+	/**
+	 * Called when the panel is closed
+	 */
+	onClose?: () => void;
+}
+
+export interface Panel {
+	/**
+	 * Body element, to add content to
+	 */
+	readonly body: HTMLElement;
+
+	/**
+	 * Replace the body contents
+	 */
+	setContent(content: string | Node): void;
+
+	show(): void;
+
+	hide(): void;
+
+	/**
+	 * Remove the panel
+	 */
+	close(): void;
+}
+
+export interface ToastOptions {
+	/**
+	 * Color of the toast (default: info)
+	 */
+	type?: "info" | "success" | "warning" | "error";
+
+	/**
+	 * Time in milliseconds before it's dismissed, 0 to wait for a click
+	 * (default: 3000)
+	 */
+	duration?: number;
+}
+
+export interface ModalButton<T> {
+	label: string;
+	/**
+	 * Value the modal resolves with when clicked
+	 */
+	value: T;
+	primary?: boolean;
+}
+
+export interface ModalOptions<T> {
+	title?: string;
+
+	/**
+	 * Text or element shown in the body
+	 */
+	content: string | Node;
+
+	/**
+	 * Buttons in the footer (default: a single OK button resolving true)
+	 */
+	buttons?: ModalButton<T>[];
+
+	/**
+	 * Allow closing with Escape or by clicking outside (default: true)
+	 */
+	dismissible?: boolean;
+}
+
+export interface SettingsFormOptions<S extends SettingsSchema> {
+	/**
+	 * Labels for the settings (default: the setting name, split into words)
+	 */
+	labels?: Partial<Record<keyof S & string, string>>;
+}
+
+export interface SettingsForm {
+	readonly element: HTMLFormElement;
+
+	/**
+	 * Stop updating the form and remove it
+	 */
+	destroy(): void;
+}
+
+// Toasts shown at the same time, the rest wait in a queue
+const MAX_VISIBLE_TOASTS = 3;
+
+const STYLES = `
+:host {
+	all: initial;
+	--usx-bg: #ffffff;
+	--usx-fg: #1f2328;
+	--usx-muted: #59636e;
+	--usx-border: #d1d9e0;
+	--usx-accent: #0969da;
+	--usx-accent-fg: #ffffff;
+	--usx-success: #1a7f37;
+	--usx-warning: #9a6700;
+	--usx-error: #d1242f;
+	--usx-shadow: 0 8px 24px rgba(66, 74, 83, 0.2);
+	font: 14px/1.4 system-ui, -apple-system, "Segoe UI", sans-serif;
+	color: var(--usx-fg);
+}
+
+@media (prefers-color-scheme: dark) {
+	:host(:not([data-theme="light"])) {
+		--usx-bg: #151b23;
+		--usx-fg: #f0f6fc;
+		--usx-muted: #9198a1;
+		--usx-border: #3d444d;
+		--usx-accent: #4493f8;
+		--usx-success: #3fb950;
+		--usx-warning: #d29922;
+		--usx-error: #f85149;
+		--usx-shadow: 0 8px 24px rgba(1, 4, 9, 0.6);
+	}
+}
+
+:host([data-theme="dark"]) {
+	--usx-bg: #151b23;
+	--usx-fg: #f0f6fc;
+	--usx-muted: #9198a1;
+	--usx-border: #3d444d;
+	--usx-accent: #4493f8;
+	--usx-success: #3fb950;
+	--usx-warning: #d29922;
+	--usx-error: #f85149;
+	--usx-shadow: 0 8px 24px rgba(1, 4, 9, 0.6);
+}
+
+* { box-sizing: border-box; }
+
+.panel, .modal, .toast {
+	background: var(--usx-bg);
+	color: var(--usx-fg);
+	border: 1px solid var(--usx-border);
+	border-radius: 8px;
+	box-shadow: var(--usx-shadow);
+}
+
+.panel {
+	position: fixed;
+	z-index: 2147483646;
+	display: flex;
+	flex-direction: column;
+	min-width: 240px;
+	max-width: 90vw;
+	max-height: 80vh;
+}
+
+.panel[hidden] { display: none; }
+
+.header {
+	display: flex;
+	align-items: center;
+	gap: 8px;
+	padding: 8px 12px;
+	border-bottom: 1px solid var(--usx-border);
+	font-weight: 600;
+	user-select: none;
+}
+
+.panel.draggable .header { cursor: move; }
+
+.title { flex: 1; }
+
+.close {
+	border: 0;
+	background: none;
+	color: var(--usx-muted);
+	font: inherit;
+	font-size: 18px;
+	line-height: 1;
+	cursor: pointer;
+}
+
+.body {
+	padding: 12px;
+	overflow: auto;
+}
+
+.toasts {
+	position: fixed;
+	z-index: 2147483647;
+	right: 16px;
+	bottom: 16px;
+	display: flex;
+	flex-direction: column;
+	gap: 8px;
+}
+
+.toast {
+	max-width: 360px;
+	padding: 10px 14px;
+	border-left: 4px solid var(--usx-accent);
+	cursor: pointer;
+}
+
+.toast[data-type="success"] { border-left-color: var(--usx-success); }
+.toast[data-type="warning"] { border-left-color: var(--usx-warning); }
+.toast[data-type="error"] { border-left-color: var(--usx-error); }
+
+.backdrop {
+	position: fixed;
+	z-index: 2147483647;
+	inset: 0;
+	display: flex;
+	align-items: center;
+	justify-content: center;
+	background: rgba(0, 0, 0, 0.4);
+}
+
+.modal {
+	display: flex;
+	flex-direction: column;
+	min-width: 300px;
+	max-width: min(560px, 90vw);
+	max-height: 85vh;
+	outline: none;
+}
+
+.footer {
+	display: flex;
+	justify-content: flex-end;
+	gap: 8px;
+	padding: 8px 12px;
+	border-top: 1px solid var(--usx-border);
+}
+
+button.button {
+	padding: 6px 12px;
+	border: 1px solid var(--usx-border);
+	border-radius: 6px;
+	background: var(--usx-bg);
+	color: var(--usx-fg);
+	font: inherit;
+	cursor: pointer;
+}
+
+button.button.primary {
+	border-color: var(--usx-accent);
+	background: var(--usx-accent);
+	color: var(--usx-accent-fg);
+}
+
+.field {
+	display: flex;
+	flex-direction: column;
+	gap: 4px;
+	margin-bottom: 10px;
+}
+
+.field.checkbox {
+	flex-direction: row-reverse;
+	justify-content: flex-end;
+	align-items: center;
+	gap: 8px;
+}
+
+input, select, textarea {
+	padding: 4px 6px;
+	border: 1px solid var(--usx-border);
+	border-radius: 4px;
+	background: var(--usx-bg);
+	color: var(--usx-fg);
+	font: inherit;
+}
+
+[aria-invalid="true"] { border-color: var(--usx-error); }
+`;
+
+let host: HTMLElement | undefined;
+let root: ShadowRoot | undefined;
+let theme: Theme = "auto";
+
+let toastContainer: HTMLElement | undefined;
+const toastQueue: (() => void)[] = [];
+let visibleToasts = 0;
+// Timers of the visible toasts, cleared with them on hot reload
+const toastTimers = new Set<ReturnType<typeof setTimeout>>();
+
+// Shadow root shared by every component, removed on hot reload
+function getRoot(): ShadowRoot {
+	if (root) return root;
+
+	host = document.createElement("usx-ui");
+	host.dataset.theme = theme;
+	root = host.attachShadow({ mode: "open" });
+
+	const style = document.createElement("style");
+	style.textContent = STYLES;
+	root.appendChild(style);
+	document.documentElement.appendChild(host);
+
+	onCleanup(() => {
+		host?.remove();
+		host = undefined;
+		root = undefined;
+		toastContainer = undefined;
+		toastQueue.length = 0;
+		visibleToasts = 0;
+		for (const timer of toastTimers) {
+			clearTimeout(timer);
+		}
+		toastTimers.clear();
+	});
+
+	return root;
+}
+
+function h<K extends keyof HTMLElementTagNameMap>(
+	tag: K,
+	attributes: Record<string, string> = {},
+	...children: (Node | string)[]
+): HTMLElementTagNameMap[K] {
+	const element = document.createElement(tag);
+	for (const [name, value] of Object.entries(attributes)) {
+		element.setAttribute(name, value);
+	}
+	element.append(...children);
+	return element;
+}
+
+// e.g. "pageSize" -> "Page size"
+function toLabel(name: string): string {
+	const words = name
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.replace(/[_-]+/g, " ")
+		.toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function makeDraggable(panel: HTMLElement, handle: HTMLElement) {
+	handle.addEventListener("pointerdown", (event) => {
+		if (event.button !== 0 || (event.target as Element).closest("button")) {
+			return;
+		}
+
+		const rect = panel.getBoundingClientRect();
+		const offsetX = event.clientX - rect.left;
+		const offsetY = event.clientY - rect.top;
+		handle.setPointerCapture(event.pointerId);
+
+		const onMove = (move: PointerEvent) => {
+			const left = Math.min(
+				Math.max(0, move.clientX - offsetX),
+				window.innerWidth - rect.width,
+			);
+			const top = Math.min(
+				Math.max(0, move.clientY - offsetY),
+				window.innerHeight - rect.height,
+			);
+			Object.assign(panel.style, {
+				left: `${left}px`,
+				top: `${top}px`,
+				right: "auto",
+				bottom: "auto",
+			});
+		};
+
+		const onUp = () => {
+			handle.removeEventListener("pointermove", onMove);
+			handle.removeEventListener("pointerup", onUp);
+		};
+
+		handle.addEventListener("pointermove", onMove);
+		handle.addEventListener("pointerup", onUp);
+	});
+}
+
+/**
+ * Use a light or dark theme, or follow `prefers-color-scheme`
+ *
+ * @param value - Theme (default: auto)
+ *
+ * @example
+ * ```ts
+ * setTheme('dark');
+ * ```
+ */
+export function setTheme(value: Theme): void {
+	theme = value;
+	if (host) {
+		host.dataset.theme = value;
+	}
+}
+
+/**
+ * Show a floating panel, draggable by its header
+ *
+ * @param options - Title, content, position and behavior
+ * @returns Handle to update, hide or close the panel
+ *
+ * @example
+ * ```ts
+ * const panel = createPanel({ title: 'Downloads', content: 'Nothing yet' });
+ * panel.setContent(list);
+ * ```
+ */
+export function createPanel(options: PanelOptions = {}): Panel {
+	const {
+		title = "",
+		position = { top: 16, right: 16 },
+		draggable = true,
+		closable = true,
+	} = options;
+
+	const body = h("div", { class: "body" });
+	const header = h(
+		"div",
+		{ class: "header" },
+		h("span", { class: "title" }, title),
+	);
+	const panel = h("div", { class: "panel", role: "dialog" }, header, body);
+
+	if (title) {
+		panel.setAttribute("aria-label", title);
+	}
+	if (options.width) {
+		panel.style.width = options.width;
+	}
+	for (const [edge, value] of Object.entries(position)) {
+		panel.style.setProperty(edge, `${value}px`);
+	}
+
+	const handle: Panel = {
+		body,
+		setContent(content) {
+			body.replaceChildren(content);
+		},
+		show() {
+			panel.hidden = false;
+		},
+		hide() {
+			panel.hidden = true;
+		},
+		close() {
+			panel.remove();
+			options.onClose?.();
+		},
+	};
+
+	if (closable) {
+		const close = h("button", { class: "close", "aria-label": "Close" }, "×");
+		close.addEventListener("click", () => handle.close());
+		header.appendChild(close);
+	}
+
+	if (draggable) {
+		panel.classList.add("draggable");
+		makeDraggable(panel, header);
+	}
+
+	if (options.content !== undefined) {
+		handle.setContent(options.content);
+	}
+
+	getRoot().appendChild(panel);
+	return handle;
+}
+
+/**
+ * Show a short message in the corner of the page. Toasts beyond the visible
+ * limit are queued.
+ *
+ * @param message - Text to show
+ * @param options - Type and duration
+ * @returns Promise resolving when the toast is dismissed
+ *
+ * @example
+ * ```ts
+ * toast('Settings saved', { type: 'success' });
+ * ```
+ */
+export function toast(
+	message: string,
+	options: ToastOptions = {},
+): Promise<void> {
+	const { type = "info", duration = 3000 } = options;
+
+	return new Promise((resolve) => {
+		const show = () => {
+			const shadowRoot = getRoot();
+			if (!toastContainer) {
+				toastContainer = h("div", { class: "toasts", "aria-live": "polite" });
+				shadowRoot.appendChild(toastContainer);
+			}
+
+			visibleToasts++;
+			const element = h(
+				"div",
+				{ class: "toast", role: "status", "data-type": type },
+				message,
+			);
+			toastContainer.appendChild(element);
+
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const dismiss = () => {
+				if (timer !== undefined) {
+					clearTimeout(timer);
+					toastTimers.delete(timer);
+				}
+				element.remove();
+				visibleToasts--;
+				toastQueue.shift()?.();
+				resolve();
+			};
+
+			element.addEventListener("click", dismiss, { once: true });
+			if (duration > 0) {
+				timer = setTimeout(dismiss, duration);
+				toastTimers.add(timer);
+			}
+		};
+
+		if (visibleToasts < MAX_VISIBLE_TOASTS) {
+			show();
+		} else {
+			toastQueue.push(show);
+		}
+	});
+}
+
+/**
+ * Show a modal dialog
+ *
+ * @param options - Title, content and buttons
+ * @returns Promise resolving with the value of the clicked button, or
+ * undefined if dismissed
+ *
+ * @example
+ * ```ts
+ * const remove = await modal({
+ *   title: 'Remove item?',
+ *   content: 'This cannot be undone.',
+ *   buttons: [
+ *     { label: 'Cancel', value: false },
+ *     { label: 'Remove', value: true, primary: true },
+ *   ],
+ * });
+ * ```
+ */
+export function modal<T = boolean>(
+	options: ModalOptions<T>,
+): Promise<T | undefined> {
+	const {
+		title,
+		content,
+		buttons = [{ label: "OK", value: true as T, primary: true }],
+		dismissible = true,
+	} = options;
+
+	return new Promise((resolve) => {
+		const footer = h("div", { class: "footer" });
+		const dialog = h(
+			"div",
+			{ class: "modal", role: "dialog", "aria-modal": "true", tabindex: "-1" },
+			...(title
+				? [h("div", { class: "header" }, h("span", { class: "title" }, title))]
+				: []),
+			h("div", { class: "body" }, content),
+			footer,
+		);
+		const backdrop = h("div", { class: "backdrop" }, dialog);
+
+		const finish = (value: T | undefined) => {
+			backdrop.remove();
+			resolve(value);
+		};
+
+		for (const button of buttons) {
+			const element = h(
+				"button",
+				{ class: button.primary ? "button primary" : "button", type: "button" },
+				button.label,
+			);
+			element.addEventListener("click", () => finish(button.value));
+			footer.appendChild(element);
+		}
+
+		if (dismissible) {
+			backdrop.addEventListener("click", (event) => {
+				if (event.target === backdrop) finish(undefined);
+			});
+			dialog.addEventListener("keydown", (event) => {
+				if (event.key === "Escape") finish(undefined);
+			});
+		}
+
+		getRoot().appendChild(backdrop);
+		(footer.querySelector<HTMLElement>(".primary") ?? dialog).focus();
+	});
+}
+
+/**
+ * Build a form editing settings from `defineSettings`. Changes are saved as
+ * they're made and values changed elsewhere are reflected.
+ *
+ * @param settings - Settings to edit
+ * @param options - Labels for the settings
+ * @returns Form element and a function to destroy it
+ *
+ * @example
+ * ```ts
+ * const form = settingsForm(settings, { labels: { pageSize: 'Results per page' } });
+ * createPanel({ title: 'Settings', content: form.element });
+ * ```
+ */
+export function settingsForm<S extends SettingsSchema>(
+	settings: Settings<S>,
+	options: SettingsFormOptions<S> = {},
+): SettingsForm {
+	const form = h("form");
+	const unsubscribers: (() => void)[] = [];
+
+	form.addEventListener("submit", (event) => event.preventDefault());
+
+	for (const key of Object.keys(settings.schema) as (keyof S & string)[]) {
+		const field = settings.schema[key];
+		const defaultValue = field.default;
+		const id = `usx-setting-${key}`;
+
+		let input: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+		let read: () => unknown;
+		let write: (value: unknown) => void;
+
+		if (field.choices) {
+			const choices = field.choices;
+			const select = h("select");
+			choices.forEach((choice, index) => {
+				select.appendChild(
+					h("option", { value: String(index) }, String(choice)),
+				);
+			});
+			input = select;
+			read = () => choices[Number(select.value)];
+			write = (value) => {
+				select.value = String(choices.indexOf(value));
+			};
+		} else if (typeof defaultValue === "boolean") {
+			const checkbox = h("input", { type: "checkbox" });
+			input = checkbox;
+			read = () => checkbox.checked;
+			write = (value) => {
+				checkbox.checked = value as boolean;
+			};
+		} else if (typeof defaultValue === "number") {
+			const number = h("input", { type: "number" });
+			if (field.min !== undefined) number.min = String(field.min);
+			if (field.max !== undefined) number.max = String(field.max);
+			input = number;
+			read = () => number.valueAsNumber;
+			write = (value) => {
+				number.value = String(value);
+			};
+		} else if (typeof defaultValue === "string") {
+			const text = h("input", { type: "text" });
+			input = text;
+			read = () => text.value;
+			write = (value) => {
+				text.value = value as string;
+			};
+		} else {
+			// Arrays and objects are edited as JSON
+			const textarea = h("textarea", { rows: "3" });
+			input = textarea;
+			read = () => JSON.parse(textarea.value);
+			write = (value) => {
+				textarea.value = JSON.stringify(value, null, 2);
+			};
+		}
+
+		input.id = id;
+		input.name = key;
+		input.addEventListener("change", async () => {
+			try {
+				await settings.set(key, read() as SettingsValues<S>[typeof key]);
+				input.removeAttribute("aria-invalid");
+				input.title = "";
+			} catch (error) {
+				input.setAttribute("aria-invalid", "true");
+				input.title = error instanceof Error ? error.message : String(error);
+			}
+		});
+
+		const label = h(
+			"label",
+			{ for: id },
+			options.labels?.[key] ?? toLabel(key),
+		);
+		const isCheckbox =
+			input instanceof HTMLInputElement && input.type === "checkbox";
+		form.appendChild(
+			h(
+				"div",
+				{ class: isCheckbox ? "field checkbox" : "field" },
+				label,
+				input,
+			),
+		);
+
+		settings
+			.get(key)
+			.then(write)
+			.catch((error) => {
+				input.setAttribute("aria-invalid", "true");
+				input.title = error instanceof Error ? error.message : String(error);
+				console.error(`[USX] Could not load setting "${key}":`, error);
+			});
+		unsubscribers.push(settings.subscribe(key, write));
+	}
+
+	const destroy = () => {
+		removeCleanup();
+		for (const unsubscribe of unsubscribers) {
+			unsubscribe();
+		}
+		form.remove();
+	};
+	const removeCleanup = onCleanup(destroy);
+
+	return { element: form, destroy };
+}
+
+/**
+ * Open the settings form in a modal dialog
+ *
+ * @param settings - Settings to edit
+ * @param options - Dialog title and labels for the settings
+ * @returns Promise resolving when the dialog is closed
+ *
+ * @example
+ * ```ts
+ * menu.register('Settings', () => openSettings(settings));
+ * ```
+ */
+export async function openSettings<S extends SettingsSchema>(
+	settings: Settings<S>,
+	options: SettingsFormOptions<S> & { title?: string } = {},
+): Promise<void> {
+	const form = settingsForm(settings, options);
+	await modal({
+		title: options.title ?? "Settings",
+		content: form.element,
+		buttons: [{ label: "Done", value: true, primary: true }],
+	});
+	form.destroy();
+}
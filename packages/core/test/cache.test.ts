@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StorageCache } from "../src/cache.js";
+import { ScopedStorage } from "../src/storage.js";
+import { mockStorage, restoreStorage } from "./storage-mock.js";
+
+describe("StorageCache", () => {
+	let mock: ReturnType<typeof mockStorage>;
+	let cache: StorageCache;
+
+	beforeEach(() => {
+		mock = mockStorage();
+		cache = new StorageCache(new ScopedStorage("cache:"), { maxEntries: 3 });
+	});
+
+	afterEach(restoreStorage);
+
+	const storedKeys = () =>
+		[...mock.values.keys()]
+			.filter((key) => key.startsWith("cache:entry:"))
+			.map((key) => key.slice("cache:entry:".length))
+			.sort();
+
+	it("evicts the least recently used entries", async () => {
+		await cache.set("a", 1);
+		await cache.set("b", 2);
+		await cache.set("c", 3);
+
+		// Reading "a" makes "b" the least recently used
+		expect(await cache.get("a")).toBe(1);
+		await cache.set("d", 4);
+
+		expect(storedKeys()).toEqual(["a", "c", "d"]);
+		expect(mock.values.get("cache:lru")).toEqual(["c", "a", "d"]);
+	});
+
+	it("keeps every entry indexed when writing concurrently", async () => {
+		await Promise.all(
+			[1, 2, 3, 4, 5, 6].map((value) => cache.set(`k${value}`, value)),
+		);
+
+		expect(storedKeys()).toEqual(["k4", "k5", "k6"]);
+		expect(mock.values.get("cache:lru")).toEqual(["k4", "k5", "k6"]);
+	});
+
+	it("doesn't write to storage on a cache hit", async () => {
+		await cache.set("a", 1);
+		const writes = mock.writes;
+
+		await cache.get("a");
+		await cache.fetch("a", async () => 2);
+
+		expect(mock.writes).toBe(writes);
+	});
+
+	it("stores keys named like the index", async () => {
+		await cache.set("lru", "value");
+		await cache.set("__lru__", "other");
+
+		expect(await cache.get("lru")).toBe("value");
+		expect(await cache.get("__lru__")).toBe("other");
+		expect(mock.values.get("cache:lru")).toEqual(["lru", "__lru__"]);
+	});
+
+	it("drops expired entries from the index", async () => {
+		await cache.set("a", 1, { ttl: -1 });
+		await cache.set("b", 2);
+
+		expect(await cache.get("a")).toBeUndefined();
+		expect(storedKeys()).toEqual(["b"]);
+		expect(mock.values.get("cache:lru")).toEqual(["b"]);
+	});
+});
@@ -0,0 +1,208 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	onAttributeChange,
+	onElement,
+	onTextChange,
+	waitFor,
+	waitForCondition,
+} from "../src/dom.js";
+
+// Let the shared observer dispatch the pending mutations
+const flush = () => new Promise((resolve) => setTimeout(resolve, 150));
+
+function add(html: string, parent: Element = document.body): Element {
+	const template = document.createElement("template");
+	template.innerHTML = html;
+	const element = template.content.firstElementChild as Element;
+	parent.appendChild(element);
+	return element;
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("onElement", () => {
+	it("calls back once per element, including existing and nested ones", async () => {
+		add('<div class="item" id="a"></div>');
+		const callback = vi.fn();
+		const stop = onElement(".item", callback);
+
+		const list = add(
+			'<ul><li class="item" id="b"><span class="item" id="c"></span></li></ul>',
+		);
+		// Moving an element reports it as removed and added again
+		list.appendChild(document.getElementById("a") as Element);
+		await flush();
+		stop();
+
+		expect(callback.mock.calls.map(([element]) => element.id)).toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+	});
+
+	it("skips existing elements when asked", async () => {
+		add('<div class="item"></div>');
+		const callback = vi.fn();
+		const stop = onElement(".item", callback, { existing: false });
+		await flush();
+		stop();
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("stops after the first element with once", async () => {
+		const callback = vi.fn();
+		onElement(".item", callback, { once: true });
+
+		add('<div class="item"></div>');
+		add('<div class="item"></div>');
+		await flush();
+		add('<div class="item"></div>');
+		await flush();
+
+		expect(callback).toHaveBeenCalledOnce();
+	});
+
+	it("reports removals and elements added back", async () => {
+		const element = add('<div class="item"></div>');
+		const callback = vi.fn();
+		const onRemove = vi.fn();
+		const stop = onElement(".item", callback, { onRemove });
+
+		element.remove();
+		await flush();
+		document.body.appendChild(element);
+		await flush();
+		stop();
+
+		expect(onRemove).toHaveBeenCalledWith(element);
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+
+	it("stops when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const callback = vi.fn();
+		onElement(".item", callback, { signal: controller.signal });
+
+		controller.abort();
+		add('<div class="item"></div>');
+		await flush();
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+});
+
+describe("waitFor", () => {
+	it("resolves with an existing or added element", async () => {
+		const existing = add('<div id="existing"></div>');
+		await expect(waitFor("#existing")).resolves.toBe(existing);
+
+		const found = waitFor("#later");
+		const later = add('<div id="later"></div>');
+		await expect(found).resolves.toBe(later);
+	});
+
+	it("rejects on timeout", async () => {
+		await expect(waitFor("#missing", { timeout: 10 })).rejects.toThrow(
+			"Timeout waiting for element: #missing",
+		);
+	});
+
+	it("rejects with the abort reason", async () => {
+		const controller = new AbortController();
+		const found = waitFor("#missing", {
+			signal: controller.signal,
+			timeout: 0,
+		});
+
+		controller.abort(new Error("left"));
+
+		await expect(found).rejects.toThrow("left");
+	});
+
+	it("finds elements matched later through the interval", async () => {
+		const element = add("<div></div>");
+		const found = waitFor(".ready", { interval: 10 });
+
+		// Attribute changes aren't watched, the interval catches them
+		element.className = "ready";
+
+		await expect(found).resolves.toBe(element);
+	});
+});
+
+describe("onAttributeChange", () => {
+	it("reports watched attributes of matching elements with the old value", async () => {
+		const element = add('<button class="play" aria-pressed="false"></button>');
+		const other = add('<button aria-pressed="false"></button>');
+		const callback = vi.fn();
+		const stop = onAttributeChange(".play", "aria-pressed", callback);
+
+		element.setAttribute("aria-pressed", "true");
+		element.setAttribute("title", "Pause");
+		other.setAttribute("aria-pressed", "true");
+		await flush();
+		stop();
+
+		expect(callback.mock.calls).toEqual([[element, "aria-pressed", "false"]]);
+	});
+});
+
+describe("onTextChange", () => {
+	it("calls back once per element per batch with the new text", async () => {
+		const title = add('<h1 class="title">One</h1>');
+		const callback = vi.fn();
+		const stop = onTextChange(".title", callback);
+
+		title.textContent = "Two";
+		title.append(" and three");
+		await flush();
+		stop();
+
+		expect(callback.mock.calls).toEqual([[title, "Two and three"]]);
+	});
+
+	it("skips changes that restore the last text seen", async () => {
+		const title = add('<h1 class="title">One</h1>');
+		const callback = vi.fn();
+		const stop = onTextChange(".title", callback);
+
+		title.textContent = "Two";
+		title.textContent = "One";
+		await flush();
+		stop();
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+});
+
+describe("waitForCondition", () => {
+	it("resolves with the predicate's value once the DOM matches", async () => {
+		const element = add("<video></video>");
+		const ready = waitForCondition(
+			() => element.getAttribute("data-state") === "ready" && element,
+		);
+
+		element.setAttribute("data-state", "ready");
+
+		await expect(ready).resolves.toBe(element);
+	});
+
+	it("rejects when the predicate throws or on timeout", async () => {
+		let calls = 0;
+		const failing = waitForCondition(() => {
+			if (++calls > 1) throw new Error("broken");
+			return false;
+		});
+		add("<div></div>");
+		await expect(failing).rejects.toThrow("broken");
+
+		await expect(
+			waitForCondition(() => false, { timeout: 10 }),
+		).rejects.toThrow("Timeout waiting for condition");
+	});
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type GMRequestDetails, overrideApi } from "../src/env.js";
+import { fetch } from "../src/gm.js";
+import { mockStorage, restoreStorage } from "./storage-mock.js";
+
+type Reply = (details: GMRequestDetails) => void;
+
+// Answer GM requests with the given replies, in order
+function mockRequests(...replies: Reply[]) {
+	const requests = vi.fn((details: GMRequestDetails) => {
+		const reply =
+			replies[Math.min(requests.mock.calls.length, replies.length) - 1];
+		reply(details);
+		return { abort: () => details.onabort?.() };
+	});
+	overrideApi("xmlHttpRequest", requests);
+	return requests;
+}
+
+const ok =
+	(body: unknown): Reply =>
+	(details) =>
+		details.onload?.({
+			status: 200,
+			statusText: "OK",
+			responseHeaders: "content-type: application/json",
+			responseText: JSON.stringify(body),
+			response: JSON.stringify(body),
+			finalUrl: details.url,
+		});
+
+afterEach(() => {
+	overrideApi("xmlHttpRequest", undefined);
+});
+
+describe("fetch cache", () => {
+	beforeEach(() => {
+		mockStorage();
+	});
+
+	afterEach(restoreStorage);
+
+	it("caches responses by key in storage.cache", async () => {
+		const requests = mockRequests(ok({ name: "a" }), ok({ name: "b" }));
+
+		const first = await fetch("https://example.com/user", { cacheKey: "user" });
+		const second = await fetch("https://example.com/user", {
+			cacheKey: "user",
+		});
+
+		expect(first.data).toEqual({ name: "a" });
+		expect(second.data).toEqual({ name: "a" });
+		expect(requests).toHaveBeenCalledOnce();
+	});
+
+	it("rejects response types that can't be stored", async () => {
+		await expect(
+			fetch("https://example.com/file", {
+				cacheKey: "file",
+				responseType: "blob",
+			}),
+		).rejects.toThrow(TypeError);
+	});
+});
+
+describe("fetch retry", () => {
+	const status =
+		(code: number): Reply =>
+		(details) =>
+			details.onload?.({
+				status: code,
+				statusText: "",
+				responseHeaders: "",
+				responseText: "",
+				response: "",
+				finalUrl: details.url,
+			});
+	const networkError: Reply = (details) =>
+		details.onerror?.({ statusText: "offline" });
+	const timeout: Reply = (details) => details.ontimeout?.();
+	const retry = { retries: 2, delay: 1 };
+
+	it("retries network errors and timeouts", async () => {
+		const requests = mockRequests(networkError, timeout, ok("done"));
+
+		const response = await fetch("https://example.com/", { retry });
+
+		expect(response.data).toBe("done");
+		expect(requests).toHaveBeenCalledTimes(3);
+	});
+
+	it("retries the configured statuses and returns the last response", async () => {
+		const requests = mockRequests(status(503), status(429), status(503));
+
+		const response = await fetch("https://example.com/", { retry });
+
+		expect(response.status).toBe(503);
+		expect(requests).toHaveBeenCalledTimes(3);
+	});
+
+	it("doesn't retry other statuses", async () => {
+		const requests = mockRequests(status(404), ok("done"));
+
+		await expect(
+			fetch("https://example.com/", { retry, throwHttpErrors: true }),
+		).rejects.toMatchObject({ name: "HttpError", status: 404 });
+		expect(requests).toHaveBeenCalledOnce();
+	});
+
+	it("doesn't retry invalid JSON", async () => {
+		const invalid: Reply = (details) =>
+			details.onload?.({
+				status: 200,
+				statusText: "OK",
+				responseHeaders: "",
+				responseText: "<html>",
+				response: "<html>",
+				finalUrl: details.url,
+			});
+		const requests = mockRequests(invalid, ok("done"));
+
+		await expect(fetch("https://example.com/", { retry })).rejects.toThrow(
+			"Failed to parse JSON response",
+		);
+		expect(requests).toHaveBeenCalledOnce();
+	});
+
+	it("aborts the pending request", async () => {
+		const abort = vi.fn();
+		overrideApi("xmlHttpRequest", () => ({ abort }));
+		const controller = new AbortController();
+
+		const response = fetch("https://example.com/", {
+			signal: controller.signal,
+		});
+		await Promise.resolve();
+		controller.abort();
+
+		await expect(response).rejects.toMatchObject({ name: "AbortError" });
+		expect(abort).toHaveBeenCalledOnce();
+	});
+
+	it("stops retrying when aborted during the backoff", async () => {
+		const requests = mockRequests(networkError);
+		const controller = new AbortController();
+
+		const response = fetch("https://example.com/", {
+			signal: controller.signal,
+			retry: { retries: 2, delay: 60_000 },
+		});
+		await vi.waitFor(() => expect(requests).toHaveBeenCalledOnce());
+		controller.abort();
+
+		await expect(response).rejects.toMatchObject({ name: "AbortError" });
+		expect(requests).toHaveBeenCalledOnce();
+	});
+});
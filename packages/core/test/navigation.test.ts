@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { matchUrl, onRoute } from "../src/navigation.js";
+
+describe("matchUrl", () => {
+	it("matches scheme, host and path globs", () => {
+		expect(
+			matchUrl("*://example.com/posts/*", "https://example.com/posts/1"),
+		).toBe(true);
+		expect(
+			matchUrl("*://example.com/posts/*", "ftp://example.com/posts/1"),
+		).toBe(false);
+		expect(matchUrl("https://example.com/*", "http://example.com/")).toBe(
+			false,
+		);
+	});
+
+	it("matches subdomains with *.", () => {
+		const pattern = "https://*.example.com/*";
+
+		expect(matchUrl(pattern, "https://example.com/")).toBe(true);
+		expect(matchUrl(pattern, "https://a.b.example.com/x")).toBe(true);
+		expect(matchUrl(pattern, "https://notexample.com/")).toBe(false);
+	});
+
+	it("matches ports", () => {
+		expect(matchUrl("http://localhost:8080/*", "http://localhost:8080/a")).toBe(
+			true,
+		);
+		expect(matchUrl("http://localhost:8080/*", "http://localhost:3000/a")).toBe(
+			false,
+		);
+		expect(matchUrl("http://localhost:*/*", "http://localhost:3000/a")).toBe(
+			true,
+		);
+	});
+
+	it("matches path patterns on any host, including the query", () => {
+		expect(matchUrl("/watch*", "https://example.com/watch?v=1")).toBe(true);
+		expect(matchUrl("/watch", "https://example.com/watch?v=1")).toBe(false);
+		expect(matchUrl("<all_urls>", "https://example.com/")).toBe(true);
+	});
+
+	it("treats regular expression characters literally", () => {
+		expect(matchUrl("https://example.com/a.b", "https://example.com/axb")).toBe(
+			false,
+		);
+	});
+
+	it("throws on invalid patterns", () => {
+		expect(() => matchUrl("example.com", "https://example.com/")).toThrow(
+			"Invalid match pattern",
+		);
+	});
+});
+
+describe("onRoute", () => {
+	const stops: (() => void)[] = [];
+
+	afterEach(() => {
+		for (const stop of stops.splice(0)) stop();
+		history.replaceState(null, "", "/");
+	});
+
+	it("runs the cleanup resolved by an async handler when the route is left", async () => {
+		const cleanup = vi.fn();
+		stops.push(onRoute("/page*", async () => cleanup));
+		history.pushState(null, "", "/page");
+		await Promise.resolve();
+
+		history.pushState(null, "", "/other");
+
+		expect(cleanup).toHaveBeenCalledOnce();
+	});
+
+	it("runs the cleanup of an async handler that finishes after leaving", async () => {
+		const cleanup = vi.fn();
+		let finish = () => {};
+		stops.push(
+			onRoute("/page*", async () => {
+				await new Promise<void>((resolve) => {
+					finish = resolve;
+				});
+				return cleanup;
+			}),
+		);
+		history.pushState(null, "", "/page");
+		history.pushState(null, "", "/other");
+		expect(cleanup).not.toHaveBeenCalled();
+
+		finish();
+		await vi.waitFor(() => expect(cleanup).toHaveBeenCalledOnce());
+	});
+
+	it("resolves route.waitFor with null when the route is left", async () => {
+		let found: Promise<Element | null> | undefined;
+		stops.push(
+			onRoute("/page*", (route) => {
+				found = route.waitFor("#missing");
+			}),
+		);
+		history.pushState(null, "", "/page");
+		history.pushState(null, "", "/other");
+
+		await expect(found).resolves.toBeNull();
+	});
+});
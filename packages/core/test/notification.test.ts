@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type GMNotificationDetails, overrideApi } from "../src/env.js";
+import { notification } from "../src/gm.js";
+
+describe("notification", () => {
+	let details: GMNotificationDetails | undefined;
+	const remove = vi.fn(() => details?.ondone?.());
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		overrideApi("notification", (value) => {
+			details = value;
+			return { remove };
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		overrideApi("notification", undefined);
+		remove.mockClear();
+	});
+
+	it("times out once and removes the notification", async () => {
+		const result = notification("Saved", "Script", { timeout: 1000 });
+		expect(details?.timeout).toBeUndefined();
+
+		vi.advanceTimersByTime(1000);
+
+		await expect(result).resolves.toBe("timeout");
+		expect(remove).toHaveBeenCalledOnce();
+	});
+
+	it("resolves with clicked or closed", async () => {
+		const clicked = notification("Saved");
+		details?.onclick?.();
+		await expect(clicked).resolves.toBe("clicked");
+
+		const closed = notification("Saved");
+		closed.close();
+		await expect(closed).resolves.toBe("closed");
+	});
+});
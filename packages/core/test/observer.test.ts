@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { watch } from "../src/observer.js";
+
+// Let the shared observer dispatch the pending mutations
+const flush = () => new Promise((resolve) => setTimeout(resolve, 150));
+
+function countObservers() {
+	const Observer = globalThis.MutationObserver;
+	const created = vi.fn();
+	vi.stubGlobal(
+		"MutationObserver",
+		class extends Observer {
+			constructor(callback: MutationCallback) {
+				super(callback);
+				created();
+			}
+		},
+	);
+	return created;
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.resetModules();
+	vi.spyOn(console, "error").mockRestore();
+	document.body.innerHTML = "";
+});
+
+describe("watch", () => {
+	it("shares one observer per root", () => {
+		const created = countObservers();
+
+		const stops = [
+			watch(document.body, { onMutations() {} }),
+			watch(document.body, { selector: "p", onAdded() {} }),
+			watch(document.head, { onMutations() {} }),
+		];
+		for (const stop of stops) stop();
+
+		expect(created).toHaveBeenCalledTimes(2);
+	});
+
+	it("dispatches the mutations of a tick as one batch", async () => {
+		const onMutations = vi.fn();
+		const onAdded = vi.fn();
+		const stopMutations = watch(document.body, { onMutations });
+		const stopAdded = watch(document.body, { selector: "p", onAdded });
+
+		for (let i = 0; i < 3; i++) {
+			document.body.append(document.createElement("p"));
+		}
+		await flush();
+		stopMutations();
+		stopAdded();
+
+		expect(onMutations).toHaveBeenCalledOnce();
+		expect(onMutations.mock.calls[0][0]).toHaveLength(3);
+		expect(onAdded).toHaveBeenCalledTimes(3);
+	});
+
+	it("skips elements added and removed again within a batch", async () => {
+		const onAdded = vi.fn();
+		const onRemoved = vi.fn();
+		const stop = watch(document.body, { selector: "p", onAdded, onRemoved });
+
+		const element = document.createElement("p");
+		document.body.append(element);
+		element.remove();
+		await flush();
+		stop();
+
+		expect(onAdded).not.toHaveBeenCalled();
+		expect(onRemoved).not.toHaveBeenCalled();
+	});
+
+	it("observes the attributes every watcher needs", async () => {
+		const title = vi.fn();
+		const hidden = vi.fn();
+		const stops = [
+			watch(document.body, { attributes: ["title"], onMutations: title }),
+			watch(document.body, { attributes: ["hidden"], onMutations: hidden }),
+		];
+
+		document.body.setAttribute("title", "a");
+		document.body.setAttribute("hidden", "");
+		document.body.setAttribute("lang", "en");
+		await flush();
+		for (const stop of stops) stop();
+
+		const names = title.mock.calls[0][0].map(
+			(record: MutationRecord) => record.attributeName,
+		);
+		expect(names).toEqual(["title", "hidden"]);
+		expect(hidden).toHaveBeenCalledOnce();
+	});
+
+	it("keeps dispatching after a callback throws or stops another watcher", async () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const second = vi.fn();
+		const third = vi.fn();
+		const stopFirst = watch(document.body, {
+			onMutations() {
+				stopSecond();
+				throw new Error("broken");
+			},
+		});
+		const stopSecond = watch(document.body, { onMutations: second });
+		const stopThird = watch(document.body, { onMutations: third });
+
+		document.body.append(document.createElement("p"));
+		await flush();
+		stopFirst();
+		stopThird();
+
+		expect(second).not.toHaveBeenCalled();
+		expect(third).toHaveBeenCalledOnce();
+		expect(console.error).toHaveBeenCalled();
+	});
+
+	it("stops when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const onMutations = vi.fn();
+		watch(document.body, { onMutations }, controller.signal);
+
+		controller.abort();
+		document.body.append(document.createElement("p"));
+		await flush();
+
+		expect(onMutations).not.toHaveBeenCalled();
+	});
+});
+
+describe("getObserverMetrics", () => {
+	it("is only available in dev builds", async () => {
+		const { getObserverMetrics } = await import("../src/observer.js");
+		expect(getObserverMetrics()).toBeUndefined();
+	});
+
+	it("counts batches, mutations and callbacks in dev builds", async () => {
+		vi.stubGlobal("__USX_DEV__", true);
+		const observer = await import("../src/observer.js");
+		const stop = observer.watch(document.body, { onMutations() {} });
+
+		document.body.append(document.createElement("p"));
+		document.body.append(document.createElement("p"));
+		await flush();
+
+		expect(observer.getObserverMetrics()).toMatchObject({
+			roots: 1,
+			watchers: 1,
+			batches: 1,
+			mutations: 2,
+			callbacks: 1,
+		});
+		stop();
+	});
+});
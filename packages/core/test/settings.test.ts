@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineSettings } from "../src/settings.js";
+import { mockStorage, restoreStorage } from "./storage-mock.js";
+
+const schema = {
+	theme: { default: "dark", choices: ["dark", "light"] },
+	pageSize: { default: 20, min: 10, max: 100 },
+};
+
+describe("defineSettings migrations", () => {
+	let mock: ReturnType<typeof mockStorage>;
+
+	beforeEach(() => {
+		mock = mockStorage();
+	});
+
+	afterEach(restoreStorage);
+
+	it("runs the migrations newer than the stored version, in order", async () => {
+		mock.values.set("settings:__version__", "1.0.0");
+		mock.values.set("settings:perPage", 50);
+		const calls: string[] = [];
+
+		const settings = defineSettings(schema, {
+			version: "2.1.0",
+			migrations: {
+				"1.0.0": (values) => {
+					calls.push("1.0.0");
+					return values;
+				},
+				"2.1.0": (values) => {
+					calls.push("2.1.0");
+					return { ...values, theme: "light" };
+				},
+				"2.0.0": ({ perPage, ...values }) => {
+					calls.push("2.0.0");
+					return { ...values, pageSize: perPage };
+				},
+				"3.0.0": (values) => {
+					calls.push("3.0.0");
+					return values;
+				},
+			},
+		});
+		await settings.ready;
+
+		expect(calls).toEqual(["2.0.0", "2.1.0"]);
+		expect(await settings.getAll()).toEqual({ theme: "light", pageSize: 50 });
+		expect(mock.values.has("settings:perPage")).toBe(false);
+		expect(mock.values.get("settings:__version__")).toBe("2.1.0");
+	});
+
+	it("runs every migration when no version was stored", async () => {
+		mock.values.set("settings:perPage", 30);
+		const migration = vi.fn(({ perPage, ...values }) => ({
+			...values,
+			pageSize: perPage,
+		}));
+
+		const settings = defineSettings(schema, {
+			version: "2.0.0",
+			migrations: { "1.5.0": migration },
+		});
+
+		expect(await settings.get("pageSize")).toBe(30);
+		expect(migration).toHaveBeenCalledOnce();
+	});
+
+	it("runs each migration once", async () => {
+		const migration = vi.fn((values) => values);
+		const options = { version: "2.0.0", migrations: { "2.0.0": migration } };
+
+		await defineSettings(schema, options).ready;
+		await defineSettings(schema, options).ready;
+
+		expect(migration).toHaveBeenCalledOnce();
+	});
+
+	it("passes only the settings' keys to migrations", async () => {
+		mock.values.set("settings:theme", "light");
+		mock.values.set("other", 1);
+		const migration = vi.fn((values) => values);
+
+		await defineSettings(schema, {
+			version: "2.0.0",
+			migrations: { "2.0.0": migration },
+		}).ready;
+
+		expect(migration).toHaveBeenCalledWith({ theme: "light" });
+		expect(mock.values.get("other")).toBe(1);
+	});
+
+	it("filters unprefixed keys by the schema", async () => {
+		mock.values.set("theme", "light");
+		mock.values.set("other", 1);
+		const migration = vi.fn(() => ({}));
+
+		await defineSettings(schema, {
+			prefix: "",
+			version: "2.0.0",
+			migrations: { "2.0.0": migration },
+		}).ready;
+
+		expect(migration).toHaveBeenCalledWith({ theme: "light" });
+		expect(mock.values.has("theme")).toBe(false);
+		expect(mock.values.get("other")).toBe(1);
+	});
+
+	it("accepts any value of the default's type", async () => {
+		const settings = defineSettings(schema, { version: "1.0.0" });
+
+		await settings.set("theme", "light");
+		await settings.set("pageSize", 40);
+
+		expect(await settings.getAll()).toEqual({ theme: "light", pageSize: 40 });
+		await expect(settings.set("pageSize", 500)).rejects.toThrow();
+	});
+});
@@ -0,0 +1,39 @@
+import { overrideApi } from "../src/env.js";
+
+/**
+ * Back the GM storage APIs with a Map, counting the writes
+ */
+export function mockStorage() {
+	const values = new Map<string, unknown>();
+	const mock = { values, writes: 0 };
+
+	overrideApi(
+		"getValue",
+		<T>(key: string, defaultValue?: T) =>
+			(values.has(key) ? structuredClone(values.get(key)) : defaultValue) as T,
+	);
+	overrideApi("setValue", (key: string, value: unknown) => {
+		mock.writes++;
+		values.set(key, structuredClone(value));
+	});
+	overrideApi("deleteValue", (key: string) => {
+		values.delete(key);
+	});
+	overrideApi("listValues", () => [...values.keys()]);
+
+	return mock;
+}
+
+/**
+ * Restore the detected storage APIs
+ */
+export function restoreStorage(): void {
+	for (const name of [
+		"getValue",
+		"setValue",
+		"deleteValue",
+		"listValues",
+	] as const) {
+		overrideApi(name, undefined);
+	}
+}
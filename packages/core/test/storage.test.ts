@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { overrideApi } from "../src/env.js";
+import { ScopedStorage } from "../src/storage.js";
+
+describe("storage localStorage fallback", () => {
+	beforeEach(() => {
+		overrideApi("getValue", null);
+		overrideApi("setValue", null);
+		overrideApi("listValues", null);
+	});
+
+	afterEach(() => {
+		overrideApi("getValue", undefined);
+		overrideApi("setValue", undefined);
+		overrideApi("listValues", undefined);
+		localStorage.clear();
+	});
+
+	it("prefixes keys with the script name", async () => {
+		const store = new ScopedStorage("app:");
+		localStorage.setItem("site", "1");
+
+		await store.set("count", 2);
+
+		expect(localStorage.getItem("usx:userscript:app:count")).toBe("2");
+		expect(await store.get("count")).toBe(2);
+		expect(await store.listKeys()).toEqual(["count"]);
+	});
+
+	it("moves values stored without the prefix on first read", async () => {
+		const store = new ScopedStorage("app:");
+		localStorage.setItem("app:theme", JSON.stringify("dark"));
+
+		expect(await store.get("theme")).toBe("dark");
+		expect(localStorage.getItem("app:theme")).toBeNull();
+		expect(localStorage.getItem("usx:userscript:app:theme")).toBe('"dark"');
+	});
+});
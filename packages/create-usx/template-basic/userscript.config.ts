@@ -8,6 +8,5 @@ export default defineConfig({
 		description: "A userscript",
 		author: "",
 		match: ["https://example.com/*"],
-		grant: ["none"],
 	},
 });
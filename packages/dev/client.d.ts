@@ -0,0 +1,90 @@
+/**
+ * Types for asset imports handled by `usx build`
+ *
+ * Add `"@userscript-x/dev/client"` to `compilerOptions.types` in tsconfig.json
+ */
+
+declare module "*?raw" {
+	const text: string;
+	export default text;
+}
+
+declare module "*.css" {
+	const css: string;
+	export default css;
+}
+
+declare module "*.html" {
+	const html: string;
+	export default html;
+}
+
+declare module "*.txt" {
+	const text: string;
+	export default text;
+}
+
+declare module "*.png" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.jpg" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.jpeg" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.gif" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.webp" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.avif" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.svg" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.ico" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.bmp" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.woff" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.woff2" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.ttf" {
+	const url: string;
+	export default url;
+}
+
+declare module "*.otf" {
+	const url: string;
+	export default url;
+}
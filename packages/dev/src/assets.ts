@@ -0,0 +1,133 @@
+import { readFileSync } from "node:fs";
+import { basename, dirname, extname, relative, resolve } from "node:path";
+
+// Imported as their text contents
+const TEXT_EXTENSIONS = new Set([".css", ".html", ".htm", ".txt"]);
+
+// Imported as a URL to the file contents
+const MIME_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".avif": "image/avif",
+	".svg": "image/svg+xml",
+	".ico": "image/x-icon",
+	".bmp": "image/bmp",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".ttf": "font/ttf",
+	".otf": "font/otf",
+};
+
+/**
+ * An asset loaded as a `@resource` instead of being inlined
+ */
+export interface ResourceAsset {
+	/** Resource name, also the filename under `assets/` */
+	name: string;
+	/** Absolute path of the source file */
+	file: string;
+}
+
+interface AssetsPluginOptions {
+	/** Inline assets into the bundle or load them as `@resource` */
+	mode: "inline" | "resource";
+	/** Register CSS so the dev server can hot-swap it */
+	dev: boolean;
+}
+
+const isRaw = (id: string) => id.endsWith("?raw");
+
+const stripQuery = (id: string) => id.replace(/\?.*$/, "");
+
+function getKind(id: string): "text" | "url" | undefined {
+	if (isRaw(id)) return "text";
+
+	const extension = extname(id).toLowerCase();
+	if (TEXT_EXTENSIONS.has(extension)) return "text";
+	if (extension in MIME_TYPES) return "url";
+	return undefined;
+}
+
+/**
+ * Get the id the dev server uses to hot-swap a CSS file
+ */
+export function getCssId(file: string): string {
+	return relative(process.cwd(), file).split("\\").join("/");
+}
+
+/**
+ * Rolldown plugin that turns CSS, HTML, image and font imports into modules
+ * exporting their text or URL
+ */
+export function assetsPlugin(
+	options: AssetsPluginOptions,
+	resources: ResourceAsset[],
+) {
+	// Resource name of every asset, so each file is only added once
+	const names = new Map<string, string>();
+
+	const getResourceName = (file: string) => {
+		const existing = names.get(file);
+		if (existing) return existing;
+
+		const extension = extname(file);
+		const stem = basename(file, extension);
+		let name = `${stem}${extension}`;
+		for (let i = 1; resources.some((asset) => asset.name === name); i++) {
+			name = `${stem}-${i}${extension}`;
+		}
+
+		names.set(file, name);
+		resources.push({ name, file });
+		return name;
+	};
+
+	return {
+		name: "usx:assets",
+		resolveId(source: string, importer: string | undefined) {
+			if (!importer || !/^\.{0,2}\//.test(source) || !getKind(source)) {
+				return null;
+			}
+			return resolve(dirname(importer), source);
+		},
+		load(id: string) {
+			const kind = getKind(id);
+			if (!kind) return null;
+
+			const file = stripQuery(id);
+
+			if (options.mode === "resource" && !options.dev) {
+				const name = JSON.stringify(getResourceName(file));
+				const helper = kind === "text" ? "getResourceText" : "getResourceUrl";
+				return {
+					code: `import { ${helper} } from "@userscript-x/core";\nexport default ${helper}(${name});`,
+					moduleType: "js" as const,
+				};
+			}
+
+			let value: string;
+			if (kind === "text") {
+				value = JSON.stringify(readFileSync(file, "utf-8"));
+			} else {
+				const mime = MIME_TYPES[extname(file).toLowerCase()];
+				value = JSON.stringify(
+					`data:${mime};base64,${readFileSync(file).toString("base64")}`,
+				);
+			}
+
+			// Dev builds keep track of the injected CSS for hot swapping
+			if (options.dev && extname(file).toLowerCase() === ".css") {
+				const cssId = JSON.stringify(getCssId(file));
+				return {
+					code: `const css = ${value};\n(window.__USX_CSS__ ??= {})[${cssId}] = css;\nexport default css;`,
+					moduleType: "js" as const,
+				};
+			}
+
+			return { code: `export default ${value};`, moduleType: "js" as const };
+		},
+	};
+}
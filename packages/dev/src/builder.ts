@@ -1,8 +1,29 @@
-import { existsSync, readFileSync, renameSync } from "node:fs";
+import {
+	copyFileSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
 import { basename, resolve } from "node:path";
 import { build as tsdownBuild } from "tsdown";
-import type { UserscriptConfig, UserscriptMetadata } from "./config.js";
+import { assetsPlugin, type ResourceAsset } from "./assets.js";
+import type {
+	UserscriptConfig,
+	UserscriptMetadata,
+	UserscriptScript,
+} from "./config.js";
+import { applyExternals, externalsPlugin } from "./externals.js";
 import { getHotReloadClient } from "./hot-reload-client.js";
+import { applyUsage, type CodeUsage, usagePlugin } from "./infer.js";
+import {
+	countLines,
+	setSourcemapUrl,
+	shiftInlineSourcemap,
+	shiftSourcemap,
+} from "./sourcemap.js";
+import { validateConfig } from "./validate.js";
 
 /**
  * Load userscript config from file
@@ -20,10 +41,14 @@ export async function loadConfig(
 	const configModule = await import(`file://${fullPath}`);
 	const config = configModule.default || configModule;
 
-	if (!config || !config.metadata) {
-		throw new Error("Invalid config: must export a config with metadata");
+	if (!config || (!config.metadata && !config.scripts)) {
+		throw new Error(
+			"Invalid config: must export a config with metadata or scripts",
+		);
 	}
 
+	validateConfig(config);
+
 	return config;
 }
 
@@ -46,12 +71,43 @@ export function generateHeader(metadata: UserscriptMetadata): string {
 		}
 	};
 
+	// Helper to add a key without a value
+	const addFlag = (key: string, enabled: boolean | undefined) => {
+		if (enabled) {
+			lines.push(`// @${key}`);
+		}
+	};
+
+	// Helper to add translations of a key, sorted by locale
+	const addLocalized = (key: "name" | "description") => {
+		const locales = Object.keys(metadata.localized ?? {}).sort();
+		for (const locale of locales) {
+			addLine(`${key}:${locale}`, metadata.localized?.[locale]?.[key]);
+		}
+	};
+
 	// Add metadata in conventional order
 	addLine("name", metadata.name);
+	addLocalized("name");
 	addLine("namespace", metadata.namespace);
 	addLine("version", metadata.version);
 	addLine("description", metadata.description);
+	addLocalized("description");
 	addLine("author", metadata.author);
+	addLine("license", metadata.license);
+	addLine("tag", metadata.tag);
+
+	if (metadata.antifeature) {
+		const antifeatures = Array.isArray(metadata.antifeature)
+			? metadata.antifeature
+			: [metadata.antifeature];
+		for (const { type, description } of antifeatures) {
+			addLine("antifeature", description ? `${type} ${description}` : type);
+		}
+	}
+
+	addLine("compatible", metadata.compatible);
+	addLine("incompatible", metadata.incompatible);
 	addLine("match", metadata.match);
 	addLine("exclude", metadata.exclude);
 	addLine("include", metadata.include);
@@ -68,13 +124,27 @@ export function generateHeader(metadata: UserscriptMetadata): string {
 
 	addLine("connect", metadata.connect);
 	addLine("run-at", metadata.runAt);
+	addLine("inject-into", metadata.injectInto);
 	addLine("sandbox", metadata.sandbox);
-	if (metadata.noframes) {
-		lines.push("// @noframes");
-	}
+	addFlag("unwrap", metadata.unwrap);
+	addFlag("top-level-await", metadata.topLevelAwait);
+	addFlag("noframes", metadata.noframes);
 	addLine("updateURL", metadata.updateURL);
 	addLine("downloadURL", metadata.downloadURL);
 	addLine("supportURL", metadata.supportURL);
+	addLine("homepageURL", metadata.homepageURL);
+
+	// Custom keys go last, sorted so the output doesn't depend on config order
+	if (metadata.extra) {
+		for (const key of Object.keys(metadata.extra).sort()) {
+			const value = metadata.extra[key];
+			if (typeof value === "boolean") {
+				addFlag(key, value);
+			} else {
+				addLine(key, value);
+			}
+		}
+	}
 
 	lines.push("// ==/UserScript==");
 	lines.push("");
@@ -103,7 +173,111 @@ export function getDefaultOutputFile(): string {
 }
 
 /**
- * Build userscript
+ * Get the `.meta.js` filename for a userscript output filename
+ */
+export function getMetaFile(outFile: string): string {
+	return `${outFile.replace(/(\.user)?\.js$/, "")}.meta.js`;
+}
+
+/**
+ * Derive updateURL and downloadURL from the configured base URL
+ */
+export function applyPublishUrls(
+	metadata: UserscriptMetadata,
+	baseUrl: string,
+	outFile: string,
+	meta: boolean,
+): UserscriptMetadata {
+	const base = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+	const downloadURL = new URL(outFile, base).href;
+	const updateURL = meta
+		? new URL(getMetaFile(outFile), base).href
+		: downloadURL;
+
+	return {
+		...metadata,
+		updateURL: metadata.updateURL ?? updateURL,
+		downloadURL: metadata.downloadURL ?? downloadURL,
+	};
+}
+
+/**
+ * A userscript resolved from the config, ready to build
+ */
+export interface ResolvedScript {
+	/** Entry file */
+	entry: string;
+	/** Userscript metadata */
+	metadata: UserscriptMetadata;
+	/** Output filename */
+	outFile: string;
+}
+
+/**
+ * Copy resource assets to the output directory and declare them in the
+ * metadata
+ */
+function applyResources(
+	metadata: UserscriptMetadata,
+	resources: ResourceAsset[],
+	baseUrl: string,
+	outDir: string,
+): UserscriptMetadata {
+	if (resources.length === 0) {
+		return metadata;
+	}
+
+	const base = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+	const resource = { ...metadata.resource };
+
+	mkdirSync(resolve(outDir, "assets"), { recursive: true });
+	for (const asset of resources) {
+		copyFileSync(asset.file, resolve(outDir, "assets", asset.name));
+		resource[asset.name] = new URL(`assets/${asset.name}`, base).href;
+	}
+
+	return { ...metadata, resource };
+}
+
+/**
+ * Resolve the userscripts to build from a single or multi-script config
+ */
+export function resolveScripts(config: UserscriptConfig): ResolvedScript[] {
+	if (!config.scripts) {
+		if (!config.metadata) {
+			throw new Error("Invalid config: must export a config with metadata");
+		}
+
+		return [
+			{
+				entry: config.entry || "src/main.ts",
+				metadata: config.metadata,
+				outFile: config.build?.outFile || getDefaultOutputFile(),
+			},
+		];
+	}
+
+	const scripts: [string, UserscriptScript][] = Array.isArray(config.scripts)
+		? config.scripts.map((script) => [script.metadata.name, script])
+		: Object.entries(config.scripts);
+
+	return scripts.map(([key, script]) => {
+		// Convert the key to a filename (e.g., "My Script" -> my-script)
+		const filename = key
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-|-$/g, "");
+
+		return {
+			entry: script.entry,
+			metadata: script.metadata,
+			outFile: script.outFile || `${filename || "bundle"}.user.js`,
+		};
+	});
+}
+
+/**
+ * Build every userscript in the config
  */
 export async function build(
 	options: {
@@ -115,39 +289,150 @@ export async function build(
 ): Promise<void> {
 	// Load config
 	const config = options.config || (await loadConfig(options.configPath));
+	const scripts = resolveScripts(config);
+
+	// Scripts are built one at a time since IIFE bundles can't share chunks,
+	// so only the first build may clean the output directory
+	for (const [index, script] of scripts.entries()) {
+		await buildScript(script, config, {
+			dev: options.dev,
+			hotReloadPort: options.hotReloadPort,
+			clean: index === 0,
+		});
+	}
+}
 
+/**
+ * Build a single userscript
+ */
+async function buildScript(
+	script: ResolvedScript,
+	config: UserscriptConfig,
+	options: { dev?: boolean; hotReloadPort?: number; clean: boolean },
+): Promise<void> {
 	// Default build options
 	const outDir = config.build?.outDir || "dist";
-	const outFile = config.build?.outFile || getDefaultOutputFile();
+	const outFile = script.outFile;
 	const outputPath = resolve(process.cwd(), outDir, outFile);
 
-	// Generate banner with header and optional hot reload client
-	let banner = generateHeader(config.metadata);
+	// Collect GM API usage while rendering the bundle
+	const usage: CodeUsage = {
+		grants: new Set(),
+		fallbacks: new Set(),
+		hosts: new Set(),
+	};
+	const autoGrant = config.build?.autoGrant ?? true;
 
-	if (options.dev && options.hotReloadPort) {
-		banner += `\n${getHotReloadClient(options.hotReloadPort)}`;
-	}
+	// Libraries loaded with @require, only the imported ones are added
+	const externals = config.build?.externals ?? {};
+	const usedExternals = new Set<string>();
+
+	// Assets loaded with @resource, collected while loading modules
+	const resources: ResourceAsset[] = [];
+
+	// Dev builds use inline sourcemaps so the browser console points at the
+	// TypeScript sources, an external .map can't be loaded from the dev server
+	const sourcemap = options.dev
+		? config.build?.sourcemap !== false && "inline"
+		: (config.build?.sourcemap ?? false);
 
 	// Run tsdown to build
 	await tsdownBuild({
-		entry: ["src/main.ts"],
+		entry: { main: script.entry },
 		format: ["iife"],
 		outDir,
-		clean: true,
+		clean: options.clean,
 		dts: false,
 		treeshake: true,
-		minify: false,
+		minify: !options.dev && (config.build?.minify ?? false),
+		sourcemap,
 		platform: "browser",
-		target: "es2022",
-		banner: {
-			js: banner,
+		target: config.build?.target ?? "es2022",
+		define: {
+			...config.build?.define,
+			// Read by @userscript-x/core when a GM API isn't granted
+			__USX_FALLBACK_POLICY__: JSON.stringify(
+				config.build?.fallback ?? (options.dev ? "warn" : "silent"),
+			),
+			// Enables development-only checks and metrics in @userscript-x/core
+			__USX_DEV__: JSON.stringify(!!options.dev),
+		},
+		external: [...(config.build?.external ?? []), ...Object.keys(externals)],
+		plugins: [
+			assetsPlugin(
+				{ mode: config.build?.assets ?? "inline", dev: !!options.dev },
+				resources,
+			),
+			externalsPlugin(usedExternals),
+			autoGrant && usagePlugin(usage),
+		],
+		outputOptions: {
+			globals: Object.fromEntries(
+				Object.entries(externals).map(([id, external]) => [
+					id,
+					external.global,
+				]),
+			),
 		},
 	});
 
-	// tsdown creates main.iife.js by default, rename to desired output filename
+	// Generate banner with header and optional hot reload client
+	let metadata = applyExternals(script.metadata, externals, usedExternals);
+	if (autoGrant) {
+		metadata = applyUsage(metadata, usage);
+	}
+
+	// Dev builds are installed from the dev server, don't point them elsewhere
+	const emitMeta = !options.dev && (config.build?.meta ?? false);
+	if (!options.dev && config.build?.baseUrl) {
+		metadata = applyResources(
+			metadata,
+			resources,
+			config.build.baseUrl,
+			resolve(process.cwd(), outDir),
+		);
+		metadata = applyPublishUrls(
+			metadata,
+			config.build.baseUrl,
+			outFile,
+			emitMeta,
+		);
+	}
+
+	const header = generateHeader(metadata);
+	let banner = header;
+
+	if (options.dev && options.hotReloadPort) {
+		banner += `\n${getHotReloadClient(options.hotReloadPort, outFile)}`;
+	}
+
+	// tsdown creates main.iife.js by default, prepend the banner and write
+	// it to the desired output filename. The banner is added after minifying
+	// so the header comments survive, which shifts the sourcemap.
+	const prefix = `${banner}\n`;
 	const tsdownOutput = resolve(process.cwd(), outDir, "main.iife.js");
-	if (existsSync(tsdownOutput) && basename(outputPath) !== "main.iife.js") {
-		renameSync(tsdownOutput, outputPath);
+	let code = readFileSync(tsdownOutput, "utf-8");
+	if (tsdownOutput !== outputPath) {
+		rmSync(tsdownOutput);
+	}
+
+	if (sourcemap === "inline") {
+		code = shiftInlineSourcemap(code, countLines(prefix));
+	} else if (sourcemap) {
+		const tsdownMap = `${tsdownOutput}.map`;
+		const map = readFileSync(tsdownMap, "utf-8");
+		rmSync(tsdownMap);
+		writeFileSync(
+			`${outputPath}.map`,
+			shiftSourcemap(map, countLines(prefix), basename(outFile)),
+		);
+		code = setSourcemapUrl(code, `${basename(outFile)}.map`);
+	}
+
+	writeFileSync(outputPath, prefix + code);
+
+	if (emitMeta) {
+		writeFileSync(resolve(process.cwd(), outDir, getMetaFile(outFile)), header);
 	}
 
 	if (!options.dev) {
@@ -0,0 +1,253 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import pc from "picocolors";
+import { parseAst } from "rolldown/parseAst";
+import {
+	generateHeader,
+	loadConfig,
+	type ResolvedScript,
+	resolveScripts,
+} from "./builder.js";
+import type { UserscriptConfig } from "./config.js";
+import {
+	type AstNode,
+	apiKey,
+	type CodeUsage,
+	scanUsage,
+	walk,
+} from "./infer.js";
+
+/**
+ * A problem found in a built userscript
+ */
+export interface CheckIssue {
+	/** Errors fail the check, warnings are only reported */
+	level: "error" | "warning";
+	message: string;
+}
+
+// Keys `usx build` may add on top of the configured metadata
+const DERIVED_KEYS = new Set([
+	"grant",
+	"connect",
+	"require",
+	"resource",
+	"updateURL",
+	"downloadURL",
+]);
+
+/**
+ * Parse the metadata block of a userscript into its keys and values
+ */
+export function parseHeader(code: string): Map<string, string[]> | undefined {
+	const block = /\/\/ ==UserScript==\r?\n([\s\S]*?)\/\/ ==\/UserScript==/.exec(
+		code,
+	);
+	if (!block) return undefined;
+
+	const header = new Map<string, string[]>();
+	for (const line of block[1].split(/\r?\n/)) {
+		const entry = /^\/\/\s*@(\S+)(?:\s+(.*?))?\s*$/.exec(line);
+		if (!entry) continue;
+
+		const [, key, value = ""] = entry;
+		header.set(key, [...(header.get(key) ?? []), value]);
+	}
+	return header;
+}
+
+/**
+ * Compare the header of the built file with the header the config produces
+ */
+function checkHeader(
+	actual: Map<string, string[]>,
+	expected: Map<string, string[]>,
+): CheckIssue[] {
+	const issues: CheckIssue[] = [];
+	const error = (message: string) => issues.push({ level: "error", message });
+
+	for (const [key, values] of expected) {
+		const found = actual.get(key) ?? [];
+		const missing = values.filter((value) => !found.includes(value));
+		for (const value of missing) {
+			error(`@${key} ${value} is in the config but missing from the header`);
+		}
+
+		if (!DERIVED_KEYS.has(key)) {
+			const extra = found.filter((value) => !values.includes(value));
+			for (const value of extra) {
+				error(`@${key} ${value} is in the header but not in the config`);
+			}
+		}
+	}
+
+	for (const key of actual.keys()) {
+		if (!expected.has(key) && !DERIVED_KEYS.has(key)) {
+			error(`@${key} is in the header but not in the config`);
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Find code patterns script hosts like Greasy Fork reject
+ */
+function checkRemoteCode(program: unknown, code: string): CheckIssue[] {
+	const issues: CheckIssue[] = [];
+	const report = (node: AstNode, pattern: string) => {
+		const line = code.slice(0, node.start as number).split("\n").length;
+		issues.push({ level: "error", message: `${pattern} on line ${line}` });
+	};
+
+	const calleeName = (node: AstNode) => {
+		const callee = node.callee as AstNode;
+		if (callee.type === "Identifier") return callee.name as string;
+		if (callee.type === "MemberExpression" && !callee.computed) {
+			return (callee.property as AstNode).name as string;
+		}
+		return undefined;
+	};
+
+	walk(program, (node) => {
+		if (node.type === "ImportExpression") {
+			report(node, "dynamic import()");
+		}
+
+		if (node.type !== "CallExpression" && node.type !== "NewExpression") {
+			return;
+		}
+
+		const name = calleeName(node);
+		const [first] = node.arguments as AstNode[];
+
+		if (name === "eval" && node.type === "CallExpression") {
+			report(node, "eval()");
+		} else if (name === "Function") {
+			report(node, "Function constructor");
+		} else if (
+			(name === "setTimeout" || name === "setInterval") &&
+			(first?.type === "Literal" || first?.type === "TemplateLiteral")
+		) {
+			report(node, `string passed to ${name}()`);
+		}
+	});
+
+	return issues;
+}
+
+/**
+ * Check a built userscript against its config
+ */
+export function checkScript(
+	script: ResolvedScript,
+	config: UserscriptConfig,
+): CheckIssue[] {
+	const outDir = config.build?.outDir || "dist";
+	const path = resolve(process.cwd(), outDir, script.outFile);
+
+	if (!existsSync(path)) {
+		return [
+			{ level: "error", message: `${path} not found, run usx build first` },
+		];
+	}
+
+	const content = readFileSync(path, "utf-8");
+	const issues: CheckIssue[] = [];
+
+	// Header round trip
+	const header = parseHeader(content);
+	if (!header) {
+		return [{ level: "error", message: "no ==UserScript== header found" }];
+	}
+
+	const expected = parseHeader(generateHeader(script.metadata)) ?? new Map();
+	issues.push(...checkHeader(header, expected));
+
+	// The header is a comment, so the whole file can be parsed
+	let program: unknown;
+	try {
+		program = parseAst(content);
+	} catch (error) {
+		issues.push({
+			level: "error",
+			message: `could not parse the bundle: ${error instanceof Error ? error.message : error}`,
+		});
+		return issues;
+	}
+
+	// GM APIs used without a matching @grant
+	const usage: CodeUsage = {
+		grants: new Set(),
+		fallbacks: new Set(),
+		hosts: new Set(),
+	};
+	scanUsage(program, usage);
+
+	// Either form of an API grants it, and fallback candidates of the core
+	// wrappers are read guarded, so they need no grant
+	const granted = new Set(header.get("grant") ?? []);
+	const grantedApis = new Set([...granted].map(apiKey));
+	const ungranted = [...usage.grants].filter(
+		(name) => !grantedApis.has(apiKey(name)),
+	);
+	if (ungranted.length > 0) {
+		// Under @grant none the wrappers from core fall back to page APIs
+		issues.push({
+			level: granted.has("none") ? "warning" : "error",
+			message: `uses ${ungranted.sort().join(", ")} without @grant`,
+		});
+	}
+
+	issues.push(...checkRemoteCode(program, content));
+
+	if (config.build?.minify) {
+		issues.push({
+			level: "warning",
+			message: "minified code is rejected by Greasy Fork",
+		});
+	}
+
+	// Size budget
+	const size = Buffer.byteLength(content);
+	const maxSize = config.build?.maxSize;
+	if (maxSize !== undefined && size > maxSize) {
+		issues.push({
+			level: "error",
+			message: `bundle is ${(size / 1024).toFixed(1)}kb, over the ${(maxSize / 1024).toFixed(1)}kb budget`,
+		});
+	}
+
+	return issues;
+}
+
+/**
+ * Check every built userscript, throwing if any check fails
+ */
+export async function check(
+	options: { config?: UserscriptConfig; configPath?: string } = {},
+): Promise<void> {
+	const config = options.config || (await loadConfig(options.configPath));
+	let errors = 0;
+
+	for (const script of resolveScripts(config)) {
+		const issues = checkScript(script, config);
+		errors += issues.filter((issue) => issue.level === "error").length;
+
+		if (issues.length === 0) {
+			console.log(pc.green(`✓ ${script.outFile} passed all checks`));
+			continue;
+		}
+
+		console.log(pc.bold(script.outFile));
+		for (const issue of issues) {
+			const label =
+				issue.level === "error" ? pc.red("error") : pc.yellow("warning");
+			console.log(`  ${label} ${issue.message}`);
+		}
+	}
+
+	if (errors > 0) {
+		throw new Error(`Check failed with ${errors} error(s)`);
+	}
+}
@@ -3,7 +3,9 @@
 import mri from "mri";
 import pc from "picocolors";
 import { build } from "./builder.js";
+import { check } from "./check.js";
 import { startDevServer } from "./dev-server.js";
+import { release } from "./release.js";
 
 function help() {
 	console.log(`
@@ -15,16 +17,24 @@ ${pc.bold("Usage:")}
 ${pc.bold("Commands:")}
   build              Build the userscript for production
   dev                Start development server with hot reload
+  check              Check the built userscript (header, grants, size)
+  release [type]     Bump the version (patch, minor, major or <version>),
+                     build and update CHANGELOG.md
 
 ${pc.bold("Options:")}
   -c, --config <file>  Specify config file (default: userscript.config.ts)
   -p, --port <port>    HTTP server port (default: 3000)
+  --check              Check the userscript after building
+  --sync-package       Also set the released version in package.json
+  --no-changelog       Don't update CHANGELOG.md on release
   -h, --help          Display this help message
 
 ${pc.bold("Examples:")}
   usx build
+  usx build --check
   usx dev
   usx dev --port 8080
+  usx release minor --sync-package
 `);
 }
 
@@ -35,7 +45,10 @@ async function main() {
 			c: "config",
 			p: "port",
 		},
-		boolean: ["help"],
+		boolean: ["help", "check", "sync-package", "changelog"],
+		default: {
+			changelog: true,
+		},
 		string: ["config", "port"],
 	});
 
@@ -52,6 +65,13 @@ async function main() {
 				await build({
 					configPath: argv.config,
 				});
+				if (argv.check) {
+					await check({ configPath: argv.config });
+				}
+				break;
+
+			case "check":
+				await check({ configPath: argv.config });
 				break;
 
 			case "dev":
@@ -61,6 +81,15 @@ async function main() {
 				});
 				break;
 
+			case "release":
+				await release({
+					configPath: argv.config,
+					bump: argv._[1],
+					syncPackage: argv["sync-package"],
+					changelog: argv.changelog,
+				});
+				break;
+
 			default:
 				console.error(pc.red(`Unknown command: ${command || "(none)"}`));
 				console.log(`\nRun ${pc.cyan("usx --help")} for usage information`);
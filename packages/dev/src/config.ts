@@ -1,3 +1,30 @@
+/**
+ * Antifeature disclosed to users, as required by Greasy Fork
+ * @see https://greasyfork.org/help/meta-keys
+ */
+export interface Antifeature {
+	/** Kind of antifeature */
+	type:
+		| "ads"
+		| "tracking"
+		| "miner"
+		| "payment"
+		| "referral-link"
+		| "membership";
+	/** Explanation shown to users */
+	description?: string;
+}
+
+/**
+ * Translated metadata for a single locale
+ */
+export interface LocalizedMetadata {
+	/** Translated script name, emitted as `@name:<locale>` */
+	name?: string;
+	/** Translated description, emitted as `@description:<locale>` */
+	description?: string;
+}
+
 /**
  * Userscript metadata configuration
  * @see https://www.tampermonkey.net/documentation.php#_name
@@ -13,6 +40,18 @@ export interface UserscriptMetadata {
 	description?: string;
 	/** The author of the script */
 	author?: string;
+	/** Translated names and descriptions, keyed by locale (e.g. `de`, `pt-BR`) */
+	localized?: Record<string, LocalizedMetadata>;
+	/** SPDX license identifier */
+	license?: string;
+	/** Tags used by script hosts to categorize the script */
+	tag?: string | string[];
+	/** Antifeatures the script contains */
+	antifeature?: Antifeature | Antifeature[];
+	/** Browsers the script is known to work with, e.g. `firefox` */
+	compatible?: string | string[];
+	/** Browsers the script is known not to work with */
+	incompatible?: string | string[];
 	/** URL patterns where the script should run */
 	match?: string | string[];
 	/** URL patterns to exclude */
@@ -25,8 +64,10 @@ export interface UserscriptMetadata {
 	updateURL?: string;
 	/** Script download URL */
 	downloadURL?: string;
-	/** Script support/homepage URL */
+	/** Script support URL */
 	supportURL?: string;
+	/** Script homepage URL */
+	homepageURL?: string;
 	/** Script icon URL */
 	icon?: string;
 	/** When to inject the script */
@@ -37,24 +78,111 @@ export interface UserscriptMetadata {
 	resource?: Record<string, string>;
 	/** Whether to use sandboxing */
 	sandbox?: "raw" | "JavaScript" | "DOM";
+	/** Context to inject the script into (Violentmonkey) */
+	injectInto?: "page" | "content" | "auto";
+	/** Run the script without the manager's wrapper function */
+	unwrap?: boolean;
+	/** Allow `await` at the top level of the script (Violentmonkey) */
+	topLevelAwait?: boolean;
 	/** Connect domains for GM_xmlhttpRequest */
 	connect?: string | string[];
 	/** Whether to run in main page context or isolated world */
 	noframes?: boolean;
+	/**
+	 * Additional keys emitted as-is after the known ones, for manager-specific
+	 * metadata. `true` emits a bare flag, `false` omits the key.
+	 */
+	extra?: Record<string, string | string[] | boolean>;
 }
 
 /**
- * Userscript development configuration
+ * A dependency loaded with `@require` instead of being bundled
  */
-export interface UserscriptConfig {
+export interface ExternalModule {
+	/** Global variable the library exposes, e.g. `jQuery` */
+	global: string;
+	/** CDN URL of a build that defines the global */
+	url: string;
+	/** Subresource integrity hash, e.g. `sha384-...` */
+	integrity?: string;
+}
+
+/**
+ * A userscript built as part of a multi-script project
+ */
+export interface UserscriptScript {
+	/** Entry file, e.g. `src/search.ts` */
+	entry: string;
 	/** Userscript metadata */
 	metadata: UserscriptMetadata;
+	/** Output filename (default: derived from the script key or name) */
+	outFile?: string;
+}
+
+/**
+ * Userscript development configuration
+ */
+export interface UserscriptConfig {
+	/** Userscript metadata, for single-script projects */
+	metadata?: UserscriptMetadata;
+	/** Entry file, for single-script projects (default: src/main.ts) */
+	entry?: string;
+	/**
+	 * Userscripts built from this project, as a list or keyed by name.
+	 * Replaces `metadata` and `entry`.
+	 */
+	scripts?: UserscriptScript[] | Record<string, UserscriptScript>;
 	/** Build options */
 	build?: {
 		/** Output directory */
 		outDir?: string;
-		/** Output filename */
+		/** Output filename, for single-script projects */
 		outFile?: string;
+		/** Infer @grant and @connect from the bundled code (default: true) */
+		autoGrant?: boolean;
+		/** Also emit a `.meta.js` file containing only the header (default: false) */
+		meta?: boolean;
+		/** Minify the production build, the header is always kept (default: false) */
+		minify?: boolean;
+		/**
+		 * Generate sourcemaps: `true` for an external `.map` file, `"inline"` to
+		 * embed them. Dev builds always use inline sourcemaps unless `false`
+		 * (default: false for production builds)
+		 */
+		sourcemap?: boolean | "inline";
+		/** Compilation target(s) (default: es2022) */
+		target?: string | string[];
+		/** Global constants replaced at build time, values are JS expressions */
+		define?: Record<string, string>;
+		/** Modules left out of the bundle, e.g. ones provided by the page */
+		external?: (string | RegExp)[];
+		/**
+		 * Packages loaded from a CDN with `@require`, keyed by package name.
+		 * Imports are rewired to the global and the URL is added to `require`
+		 * for every script that imports the package.
+		 */
+		externals?: Record<string, ExternalModule>;
+		/** Maximum size of each built userscript in bytes, checked by `--check` */
+		maxSize?: number;
+		/**
+		 * How imported CSS, HTML, images and fonts are bundled: `"inline"` embeds
+		 * them, `"resource"` copies them to `assets/` and loads them with
+		 * `@resource`, which requires `baseUrl`. Dev builds always inline them
+		 * (default: "inline")
+		 */
+		assets?: "inline" | "resource";
+		/**
+		 * URL the built files are published under. When set, `updateURL` and
+		 * `downloadURL` are derived from it unless declared in the metadata.
+		 */
+		baseUrl?: string;
+		/**
+		 * What `@userscript-x/core` wrappers do when a GM API isn't granted and
+		 * they fall back to page APIs: stay `"silent"`, `"warn"` once per API
+		 * naming the missing grant, or `"throw"`
+		 * (default: "warn" for dev builds, "silent" for production builds)
+		 */
+		fallback?: "silent" | "warn" | "throw";
 	};
 }
 
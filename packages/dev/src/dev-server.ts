@@ -4,8 +4,15 @@ import { resolve } from "node:path";
 import chokidar from "chokidar";
 import pc from "picocolors";
 import { type WebSocket, WebSocketServer } from "ws";
-import { build, getDefaultOutputFile, loadConfig } from "./builder.js";
+import { getCssId } from "./assets.js";
+import {
+	build,
+	loadConfig,
+	type ResolvedScript,
+	resolveScripts,
+} from "./builder.js";
 import type { UserscriptConfig } from "./config.js";
+import { countLines, shiftInlineSourcemap } from "./sourcemap.js";
 
 interface DevServerOptions {
 	port?: number;
@@ -13,6 +20,13 @@ interface DevServerOptions {
 	configPath?: string;
 }
 
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
 export async function startDevServer(options: DevServerOptions = {}) {
 	const port = options.port || 3000;
 	const wsPort = options.wsPort || port + 1;
@@ -27,12 +41,15 @@ export async function startDevServer(options: DevServerOptions = {}) {
 		process.exit(1);
 	}
 
-	const outDir = config.build?.outDir || "dist";
-	const outFile = config.build?.outFile || getDefaultOutputFile();
-	const scriptPath = resolve(process.cwd(), outDir, outFile);
+	let outDir = config.build?.outDir || "dist";
+	let scripts: ResolvedScript[] = resolveScripts(config);
+	const scriptPath = (script: ResolvedScript) =>
+		resolve(process.cwd(), outDir, script.outFile);
 
 	// Build initially
-	console.log(pc.cyan("Building userscript..."));
+	console.log(
+		pc.cyan(`Building userscript${scripts.length > 1 ? "s" : ""}...`),
+	);
 	try {
 		await build({
 			config,
@@ -47,16 +64,23 @@ export async function startDevServer(options: DevServerOptions = {}) {
 
 	// Create HTTP server
 	const server = createServer((req, res) => {
+		// A single-script project also serves its userscript at the root
+		const script =
+			req.url === "/" && scripts.length === 1
+				? scripts[0]
+				: scripts.find((candidate) => req.url === `/${candidate.outFile}`);
+
 		// Serve the userscript
-		if (req.url === `/${outFile}` || req.url === "/") {
-			if (!existsSync(scriptPath)) {
+		if (script) {
+			const path = scriptPath(script);
+			if (!existsSync(path)) {
 				res.writeHead(404, { "Content-Type": "text/plain" });
 				res.end("Userscript not found");
 				return;
 			}
 
 			try {
-				const content = readFileSync(scriptPath, "utf-8");
+				const content = readFileSync(path, "utf-8");
 				res.writeHead(200, {
 					"Content-Type": "text/javascript",
 					"Access-Control-Allow-Origin": "*",
@@ -66,6 +90,16 @@ export async function startDevServer(options: DevServerOptions = {}) {
 				res.writeHead(500, { "Content-Type": "text/plain" });
 				res.end("Error reading userscript");
 			}
+		} else if (req.url === "/") {
+			// List every userscript of a multi-script project
+			const links = scripts
+				.map(
+					(script) =>
+						`<li><a href="/${encodeURI(script.outFile)}">${escapeHtml(script.metadata.name)}</a></li>`,
+				)
+				.join("");
+			res.writeHead(200, { "Content-Type": "text/html" });
+			res.end(`<!doctype html><ul>${links}</ul>`);
 		} else {
 			res.writeHead(404, { "Content-Type": "text/plain" });
 			res.end("Not found");
@@ -87,10 +121,10 @@ export async function startDevServer(options: DevServerOptions = {}) {
 	});
 
 	// Function to notify all clients
-	function notifyClients() {
+	function notifyClients(script: ResolvedScript) {
 		// Read the built script and strip the userscript header
 		try {
-			const scriptContent = readFileSync(scriptPath, "utf-8");
+			const scriptContent = readFileSync(scriptPath(script), "utf-8");
 
 			// Strip userscript header (everything before and including // ==/UserScript==)
 			const headerEndMarker = "// ==/UserScript==";
@@ -122,7 +156,17 @@ export async function startDevServer(options: DevServerOptions = {}) {
 				}
 			}
 
-			const message = JSON.stringify({ type: "reload", code });
+			// Realign the inline sourcemap with the stripped code
+			code = shiftInlineSourcemap(
+				code,
+				-countLines(scriptContent.slice(0, scriptContent.length - code.length)),
+			);
+
+			const message = JSON.stringify({
+				type: "reload",
+				script: script.outFile,
+				code,
+			});
 			clients.forEach((client) => {
 				if (client.readyState === 1) {
 					// OPEN
@@ -131,7 +175,7 @@ export async function startDevServer(options: DevServerOptions = {}) {
 			});
 			console.log(
 				pc.yellow(
-					`[WS] Sent reload to ${clients.size} client(s) (${Math.round(code.length / 1024)}kb)`,
+					`[WS] Sent ${script.outFile} reload to ${clients.size} client(s) (${Math.round(code.length / 1024)}kb)`,
 				),
 			);
 		} catch (error) {
@@ -139,6 +183,32 @@ export async function startDevServer(options: DevServerOptions = {}) {
 		}
 	}
 
+	// Send the new contents of changed CSS files so they can be swapped
+	function notifyCss(files: string[]) {
+		for (const file of files) {
+			try {
+				const message = JSON.stringify({
+					type: "css",
+					id: getCssId(file),
+					css: readFileSync(file, "utf-8"),
+				});
+				clients.forEach((client) => {
+					if (client.readyState === 1) {
+						// OPEN
+						client.send(message);
+					}
+				});
+				console.log(
+					pc.yellow(
+						`[WS] Sent ${getCssId(file)} update to ${clients.size} client(s)`,
+					),
+				);
+			} catch (error) {
+				console.error(pc.red("Failed to read CSS for hot reload:"), error);
+			}
+		}
+	}
+
 	// Watch files
 	const watchPaths = [
 		resolve(process.cwd(), "src"),
@@ -155,6 +225,7 @@ export async function startDevServer(options: DevServerOptions = {}) {
 
 	let rebuilding = false;
 	let needsRebuild = false;
+	const changedFiles = new Set<string>();
 
 	async function rebuild() {
 		if (rebuilding) {
@@ -165,6 +236,12 @@ export async function startDevServer(options: DevServerOptions = {}) {
 		rebuilding = true;
 		console.log(pc.cyan("\nRebuilding..."));
 
+		// CSS-only changes are hot-swapped instead of re-running the scripts
+		const files = [...changedFiles];
+		changedFiles.clear();
+		const cssOnly =
+			files.length > 0 && files.every((file) => file.endsWith(".css"));
+
 		try {
 			// Reload config in case it changed
 			const freshConfig = await loadConfig(configPath);
@@ -175,8 +252,17 @@ export async function startDevServer(options: DevServerOptions = {}) {
 			});
 			console.log(pc.green("✓ Rebuild complete"));
 
-			// Notify clients
-			notifyClients();
+			outDir = freshConfig.build?.outDir || "dist";
+			scripts = resolveScripts(freshConfig);
+
+			// Notify clients, shared modules may have changed so reload every script
+			if (cssOnly) {
+				notifyCss(files);
+			} else {
+				for (const script of scripts) {
+					notifyClients(script);
+				}
+			}
 		} catch (error) {
 			console.error(pc.red("Build failed:"), error);
 		}
@@ -199,11 +285,13 @@ export async function startDevServer(options: DevServerOptions = {}) {
 
 	watcher.on("change", (path) => {
 		console.log(pc.cyan(`\n[WATCH] File changed: ${path}`));
+		changedFiles.add(path);
 		rebuild();
 	});
 
 	watcher.on("add", (path) => {
 		console.log(pc.cyan(`\n[WATCH] File added: ${path}`));
+		changedFiles.add(path);
 		rebuild();
 	});
 
@@ -212,9 +300,11 @@ export async function startDevServer(options: DevServerOptions = {}) {
 		console.log("");
 		console.log(pc.green("✓ Dev server started"));
 		console.log("");
-		console.log(
-			`  ${pc.bold("Userscript URL:")} ${pc.cyan(`http://localhost:${port}/${outFile}`)}`,
-		);
+		for (const script of scripts) {
+			console.log(
+				`  ${pc.bold("Userscript URL:")} ${pc.cyan(`http://localhost:${port}/${script.outFile}`)}`,
+			);
+		}
 		console.log(
 			`  ${pc.bold("Hot reload:")}    ${pc.cyan(`ws://localhost:${wsPort}`)}`,
 		);
@@ -0,0 +1,59 @@
+import type { ExternalModule, UserscriptMetadata } from "./config.js";
+
+/**
+ * Rolldown plugin that records the external modules each chunk imports
+ */
+export function externalsPlugin(used: Set<string>) {
+	return {
+		name: "usx:externals",
+		renderChunk(_code: string, chunk: { imports: string[] }) {
+			for (const id of chunk.imports) {
+				used.add(id);
+			}
+			return null;
+		},
+	};
+}
+
+/**
+ * Get the `@require` URL of an external, with its integrity hash appended
+ * in the `#algo=hash` form script managers understand
+ */
+export function getRequireUrl(external: ExternalModule): string {
+	if (!external.integrity) {
+		return external.url;
+	}
+
+	const [algorithm, ...hash] = external.integrity.split("-");
+	return `${external.url}#${algorithm}=${hash.join("-")}`;
+}
+
+/**
+ * Append the `@require` URLs of the externals the script imports
+ */
+export function applyExternals(
+	metadata: UserscriptMetadata,
+	externals: Record<string, ExternalModule>,
+	used: Set<string>,
+): UserscriptMetadata {
+	// Keep the config order, libraries may depend on ones declared before them
+	const urls = Object.entries(externals)
+		.filter(([id]) => used.has(id))
+		.map(([, external]) => getRequireUrl(external));
+
+	if (urls.length === 0) {
+		return metadata;
+	}
+
+	const require =
+		metadata.require === undefined
+			? []
+			: Array.isArray(metadata.require)
+				? metadata.require
+				: [metadata.require];
+
+	return {
+		...metadata,
+		require: [...new Set([...require, ...urls])],
+	};
+}
@@ -1,11 +1,12 @@
 /**
  * Hot reload client code that gets injected into userscripts during development
  */
-export function getHotReloadClient(port: number): string {
+export function getHotReloadClient(port: number, script: string): string {
 	return `
 // Hot reload client - injected in development mode
 (function() {
   const HOT_RELOAD_PORT = ${port};
+  const HOT_RELOAD_SCRIPT = ${JSON.stringify(script)};
   let ws;
   let reconnectTimer;
 
@@ -24,6 +25,29 @@ export function getHotReloadClient(port: number): string {
       ws.onmessage = (event) => {
         const data = JSON.parse(event.data);
 
+        // Ignore reloads meant for other scripts of the same project
+        if (data.script && data.script !== HOT_RELOAD_SCRIPT) {
+          return;
+        }
+
+        // Swap imported CSS in place without re-running the script
+        if (data.type === 'css') {
+          const styles = window.__USX_CSS__ || {};
+          const previous = styles[data.id];
+          if (previous === undefined) {
+            return;
+          }
+
+          for (const style of document.querySelectorAll('style')) {
+            if (style.textContent === previous) {
+              style.textContent = data.css;
+            }
+          }
+          styles[data.id] = data.css;
+          console.log(\`[USX] ✓ Updated \${data.id}\`);
+          return;
+        }
+
         if (data.type === 'reload' && data.code) {
           console.log('[USX] Hot reloading userscript...');
 
@@ -0,0 +1,428 @@
+import pc from "picocolors";
+import { parseAst } from "rolldown/parseAst";
+import type { UserscriptMetadata } from "./config.js";
+
+/**
+ * GM APIs and request hosts referenced by the bundled code
+ */
+export interface CodeUsage {
+	/** API names used directly, e.g. `GM_setValue` or `GM.xmlHttpRequest` */
+	grants: Set<string>;
+	/**
+	 * API names only returned by fallback candidates like `() => GM.getValue`,
+	 * which `@userscript-x/core` reads guarded and falls back from
+	 */
+	fallbacks: Set<string>;
+	/** Hostnames of literal http(s) URLs passed to request APIs */
+	hosts: Set<string>;
+}
+
+/**
+ * Minimal ESTree node shape used while walking the AST
+ */
+export interface AstNode {
+	type: string;
+	[key: string]: unknown;
+}
+
+// Always available without a @grant
+const UNGRANTED = new Set(["GM_info", "GM.info"]);
+
+// Functions of @userscript-x/core that request a URL given as first argument
+const CORE_MODULE = "@userscript-x/core";
+const CORE_REQUESTS = new Set(["fetch", "download"]);
+
+// APIs whose URLs must be allowed with @connect
+const REQUEST_APIS = new Set(["xmlhttprequest", "download"]);
+
+export const isNode = (value: unknown): value is AstNode =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as AstNode).type === "string";
+
+const toArray = (value: string | string[] | undefined): string[] =>
+	value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+function addHost(usage: CodeUsage, value: unknown) {
+	if (typeof value !== "string" || !/^https?:\/\//.test(value)) return;
+
+	try {
+		const { hostname } = new URL(value);
+		if (hostname) usage.hosts.add(hostname);
+	} catch {
+		// Not a complete URL (e.g. `https://${host}/`), skip it
+	}
+}
+
+// Hostname of a URL literal, or of the static start of a template literal
+function addUrlHost(usage: CodeUsage, node: unknown) {
+	if (!isNode(node)) return;
+
+	if (node.type === "Literal") {
+		addHost(usage, node.value);
+	} else if (node.type === "TemplateLiteral") {
+		const [first] = node.quasis as AstNode[];
+		addHost(usage, (first?.value as { cooked?: string })?.cooked);
+	}
+}
+
+/**
+ * Name shared by both forms of a GM API, e.g. `GM_xmlhttpRequest` and
+ * `GM.xmlHttpRequest` are both `xmlhttprequest`
+ */
+export const apiKey = (name: string): string =>
+	name.replace(/^GM[._]/, "").toLowerCase();
+
+/**
+ * Visit every node of an ESTree program, depth first, with the parent node
+ * and the key holding the node
+ */
+export function walk(
+	node: unknown,
+	visitor: (node: AstNode, parent?: AstNode, key?: string) => void,
+	parent?: AstNode,
+	key?: string,
+): void {
+	if (!isNode(node)) return;
+
+	visitor(node, parent, key);
+
+	for (const [childKey, value] of Object.entries(node)) {
+		if (Array.isArray(value)) {
+			for (const child of value) {
+				walk(child, visitor, node, childKey);
+			}
+		} else {
+			walk(value, visitor, node, childKey);
+		}
+	}
+}
+
+// Names bound by a declaration pattern, e.g. `{ a, b: [c] }`
+function addBindings(pattern: unknown, names: Set<string>) {
+	if (!isNode(pattern)) return;
+
+	switch (pattern.type) {
+		case "Identifier":
+			names.add(pattern.name as string);
+			break;
+		case "ObjectPattern":
+			for (const property of pattern.properties as AstNode[]) {
+				addBindings(
+					property.type === "RestElement" ? property.argument : property.value,
+					names,
+				);
+			}
+			break;
+		case "ArrayPattern":
+			for (const element of pattern.elements as unknown[]) {
+				addBindings(element, names);
+			}
+			break;
+		case "AssignmentPattern":
+			addBindings(pattern.left, names);
+			break;
+		case "RestElement":
+			addBindings(pattern.argument, names);
+			break;
+	}
+}
+
+// Every name declared in the program. The scanner doesn't track scopes, so a
+// declared name is treated as local everywhere.
+function declaredNames(program: unknown): Set<string> {
+	const names = new Set<string>();
+	walk(program, (node) => {
+		switch (node.type) {
+			case "VariableDeclarator":
+				addBindings(node.id, names);
+				break;
+			case "FunctionDeclaration":
+			case "FunctionExpression":
+			case "ArrowFunctionExpression":
+				addBindings(node.id, names);
+				for (const param of node.params as unknown[]) {
+					addBindings(param, names);
+				}
+				break;
+			case "ClassDeclaration":
+			case "ClassExpression":
+				addBindings(node.id, names);
+				break;
+			case "CatchClause":
+				addBindings(node.param, names);
+				break;
+			case "ImportSpecifier":
+			case "ImportDefaultSpecifier":
+			case "ImportNamespaceSpecifier":
+				addBindings(node.local, names);
+				break;
+		}
+	});
+	return names;
+}
+
+// Whether an identifier reads a variable, rather than naming a property,
+// a label or a declared binding
+function isReference(parent: AstNode | undefined, key: string | undefined) {
+	if (!parent) return true;
+
+	switch (parent.type) {
+		case "MemberExpression":
+			return key !== "property" || parent.computed === true;
+		case "Property":
+		case "MethodDefinition":
+		case "PropertyDefinition":
+			return key !== "key" || parent.computed === true;
+		case "LabeledStatement":
+		case "BreakStatement":
+		case "ContinueStatement":
+			return false;
+		default:
+			return true;
+	}
+}
+
+// Literal `url` of the details passed to a request API
+function addRequestHost(usage: CodeUsage, details: unknown) {
+	if (!isNode(details) || details.type !== "ObjectExpression") return;
+
+	for (const property of details.properties as AstNode[]) {
+		const key = property.key as AstNode | undefined;
+		if (
+			property.type !== "Property" ||
+			property.computed ||
+			!key ||
+			(key.name ?? key.value) !== "url"
+		) {
+			continue;
+		}
+
+		addUrlHost(usage, property.value);
+	}
+}
+
+// Bodies of arrow functions like `() => GM.getValue` passed to a call, the
+// fallback candidates of `resolveApi`
+function fallbackCandidates(program: unknown): Set<unknown> {
+	const candidates = new Set<unknown>();
+	walk(program, (node) => {
+		if (node.type !== "CallExpression") return;
+
+		for (const argument of node.arguments as AstNode[]) {
+			if (
+				argument.type === "ArrowFunctionExpression" &&
+				(argument.params as unknown[]).length === 0 &&
+				isNode(argument.body) &&
+				argument.body.type !== "BlockStatement"
+			) {
+				candidates.add(argument.body);
+			}
+		}
+	});
+	return candidates;
+}
+
+/**
+ * Walk an ESTree program and collect references to GM APIs that aren't
+ * declared in the program, and the literal URLs passed to GM request APIs
+ */
+export function scanUsage(program: unknown, usage: CodeUsage): void {
+	const declared = declaredNames(program);
+	const candidates = fallbackCandidates(program);
+	const addGrant = (node: AstNode, name: string) => {
+		if (UNGRANTED.has(name)) return;
+		(candidates.has(node) ? usage.fallbacks : usage.grants).add(name);
+	};
+	const isGlobal = (node: unknown, name: string) =>
+		isNode(node) &&
+		node.type === "Identifier" &&
+		node.name === name &&
+		!declared.has(name);
+
+	walk(program, (node, parent, key) => {
+		switch (node.type) {
+			case "Identifier": {
+				const name = node.name as string;
+				if (
+					(/^GM_\w+$/.test(name) || name === "unsafeWindow") &&
+					!declared.has(name) &&
+					isReference(parent, key)
+				) {
+					addGrant(node, name);
+				}
+				break;
+			}
+			case "MemberExpression": {
+				const { object, property, computed } = node;
+				if (!computed && isGlobal(object, "GM") && isNode(property)) {
+					addGrant(node, `GM.${property.name as string}`);
+				}
+				break;
+			}
+			case "CallExpression": {
+				const callee = node.callee as AstNode;
+				const isRequest =
+					isGlobal(callee, "GM_xmlhttpRequest") ||
+					(callee.type === "MemberExpression" &&
+						!callee.computed &&
+						isGlobal(callee.object, "GM") &&
+						isNode(callee.property) &&
+						callee.property.name === "xmlHttpRequest");
+				if (isRequest) {
+					addRequestHost(usage, (node.arguments as unknown[])[0]);
+				}
+				break;
+			}
+		}
+	});
+}
+
+/**
+ * Walk an ESTree module and collect the literal URLs passed to the `fetch`
+ * and `download` functions imported from `@userscript-x/core`
+ */
+export function scanCoreRequests(program: unknown, usage: CodeUsage): void {
+	const functions = new Set<string>();
+	const namespaces = new Set<string>();
+
+	walk(program, (node) => {
+		if (
+			node.type !== "ImportDeclaration" ||
+			(node.source as AstNode).value !== CORE_MODULE
+		) {
+			return;
+		}
+
+		for (const specifier of node.specifiers as AstNode[]) {
+			const local = (specifier.local as AstNode).name as string;
+			if (specifier.type === "ImportNamespaceSpecifier") {
+				namespaces.add(local);
+			} else if (specifier.type === "ImportSpecifier") {
+				const imported = specifier.imported as AstNode;
+				if (CORE_REQUESTS.has((imported.name ?? imported.value) as string)) {
+					functions.add(local);
+				}
+			}
+		}
+	});
+
+	if (functions.size === 0 && namespaces.size === 0) return;
+
+	walk(program, (node) => {
+		if (node.type !== "CallExpression") return;
+
+		const callee = node.callee as AstNode;
+		const isRequest =
+			(callee.type === "Identifier" && functions.has(callee.name as string)) ||
+			(callee.type === "MemberExpression" &&
+				!callee.computed &&
+				isNode(callee.object) &&
+				namespaces.has(callee.object.name as string) &&
+				CORE_REQUESTS.has((callee.property as AstNode).name as string));
+		if (isRequest) {
+			addUrlHost(usage, (node.arguments as unknown[])[0]);
+		}
+	});
+}
+
+/**
+ * Rolldown plugin that collects request URLs from the source modules and
+ * scans every rendered chunk for GM API usage
+ */
+export function usagePlugin(usage: CodeUsage) {
+	return {
+		name: "usx:infer-usage",
+		transform(code: string, id: string) {
+			if (
+				id.includes("/node_modules/") ||
+				!/\.[cm]?[jt]sx?$/.test(id) ||
+				!code.includes(CORE_MODULE)
+			) {
+				return null;
+			}
+
+			try {
+				const lang = /x$/.test(id) ? "tsx" : "ts";
+				scanCoreRequests(parseAst(code, { lang }, id), usage);
+			} catch {
+				// Syntax errors are reported by the build itself
+			}
+			return null;
+		},
+		renderChunk(this: { parse(input: string): unknown }, code: string) {
+			scanUsage(this.parse(code), usage);
+			return null;
+		},
+	};
+}
+
+/**
+ * Grants to add for the code's usage, on top of the declared ones. Fallback
+ * candidates need only one form of each API, and none if it's declared.
+ */
+export function inferGrants(
+	usage: CodeUsage,
+	declared: string[] = [],
+): string[] {
+	const covered = new Set([...declared, ...usage.grants].map(apiKey));
+
+	// Prefer GM.* when the code reads both forms
+	const fallbacks = new Map<string, string>();
+	for (const name of [...usage.fallbacks].sort()) {
+		const key = apiKey(name);
+		if (!covered.has(key) && !fallbacks.get(key)?.startsWith("GM.")) {
+			fallbacks.set(key, name);
+		}
+	}
+
+	return [...new Set([...usage.grants, ...fallbacks.values()])]
+		.filter((name) => !declared.includes(name))
+		.sort();
+}
+
+/**
+ * Merge inferred grants and connect hosts into the configured metadata
+ */
+export function applyUsage(
+	metadata: UserscriptMetadata,
+	usage: CodeUsage,
+): UserscriptMetadata {
+	const grant = toArray(metadata.grant);
+
+	// The page context has no GM APIs, the wrappers of core fall back there
+	const isPage = grant.includes("none") || metadata.sandbox === "raw";
+	if (isPage) {
+		const direct = [...usage.grants].filter((name) => name !== "unsafeWindow");
+		if (direct.length > 0) {
+			const declaration = grant.includes("none")
+				? 'grant "none"'
+				: 'sandbox "raw"';
+			console.warn(
+				pc.yellow(
+					`Warning: config declares ${declaration} but the code uses ${direct
+						.sort()
+						.join(", ")}`,
+				),
+			);
+		}
+		return metadata;
+	}
+
+	const inferred = inferGrants(usage, grant);
+	if (inferred.length === 0) {
+		return metadata;
+	}
+
+	const grants = [...grant, ...inferred];
+	const merged: UserscriptMetadata = { ...metadata, grant: grants };
+
+	const requests = grants.some((name) => REQUEST_APIS.has(apiKey(name)));
+	if (requests && usage.hosts.size > 0) {
+		merged.connect = [
+			...new Set([...toArray(metadata.connect), ...[...usage.hosts].sort()]),
+		];
+	}
+
+	return merged;
+}
@@ -0,0 +1,264 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import pc from "picocolors";
+import { parseAst } from "rolldown/parseAst";
+import { build, loadConfig, resolveScripts } from "./builder.js";
+import type { UserscriptConfig, UserscriptMetadata } from "./config.js";
+import { type AstNode, walk } from "./infer.js";
+import { isSemver } from "./validate.js";
+
+export type ReleaseType = "patch" | "minor" | "major";
+
+interface ReleaseOptions {
+	/** Release type or explicit version (default: patch) */
+	bump?: ReleaseType | string;
+	configPath?: string;
+	/** Also set the version in package.json */
+	syncPackage?: boolean;
+	/** Prepend an entry to CHANGELOG.md (default: true) */
+	changelog?: boolean;
+}
+
+/**
+ * Compute the next version for a release type, or validate an explicit one
+ */
+export function bumpVersion(version: string, bump: string): string {
+	if (bump !== "patch" && bump !== "minor" && bump !== "major") {
+		if (!isSemver(bump)) {
+			throw new Error(
+				`Invalid release: "${bump}" is not patch, minor, major or a semantic version`,
+			);
+		}
+		return bump;
+	}
+
+	const parts = /^(\d+)\.(\d+)\.(\d+)(-[^+]+)?/.exec(version);
+	if (!parts) {
+		throw new Error(`Cannot bump "${version}": not a semantic version`);
+	}
+
+	const [major, minor, patch] = parts.slice(1, 4).map(Number);
+	const prerelease = parts[4] !== undefined;
+
+	// A prerelease is released as its own version on a patch bump
+	switch (bump) {
+		case "major":
+			return `${major + 1}.0.0`;
+		case "minor":
+			return `${major}.${minor + 1}.0`;
+		default:
+			return prerelease
+				? `${major}.${minor}.${patch}`
+				: `${major}.${minor}.${patch + 1}`;
+	}
+}
+
+/**
+ * Replace the `version` of every `metadata` object in the config source whose
+ * value is `from`, leaving other `version` fields alone
+ */
+export function replaceVersion(
+	source: string,
+	from: string,
+	to: string,
+	filename = "userscript.config.ts",
+): string {
+	const program = parseAst(source, { lang: "ts" }, filename);
+	const ranges: [number, number][] = [];
+
+	const keyName = (node: AstNode) => {
+		const key = node.key as AstNode;
+		return key.type === "Identifier" ? key.name : key.value;
+	};
+
+	walk(program, (node) => {
+		const value = node.value as AstNode;
+		if (
+			node.type !== "Property" ||
+			keyName(node) !== "metadata" ||
+			value.type !== "ObjectExpression"
+		) {
+			return;
+		}
+
+		for (const property of value.properties as AstNode[]) {
+			const literal = property.value as AstNode | undefined;
+			if (
+				property.type === "Property" &&
+				keyName(property) === "version" &&
+				literal?.type === "Literal" &&
+				literal.value === from
+			) {
+				ranges.push([literal.start as number, literal.end as number]);
+			}
+		}
+	});
+
+	if (ranges.length === 0) {
+		throw new Error(
+			`Could not find metadata version "${from}" in the config, update it manually`,
+		);
+	}
+
+	// Replace from the end so earlier offsets stay valid
+	let result = source;
+	for (const [start, end] of ranges.sort((a, b) => b[0] - a[0])) {
+		const quote = source[start];
+		result = `${result.slice(0, start)}${quote}${to}${quote}${result.slice(end)}`;
+	}
+	return result;
+}
+
+/**
+ * Get the commit subjects since the previous release tag
+ */
+function getCommits(previous: string): string[] {
+	const git = (...args: string[]) =>
+		execFileSync("git", args, {
+			encoding: "utf-8",
+			stdio: ["ignore", "pipe", "ignore"],
+		}).trim();
+
+	let range = "HEAD";
+	try {
+		git("rev-parse", "--verify", `refs/tags/v${previous}`);
+		range = `v${previous}..HEAD`;
+	} catch {
+		// No tag for the previous release, include the whole history
+	}
+
+	const log = git("log", range, "--no-merges", "--format=%s (%h)");
+	return log ? log.split("\n") : [];
+}
+
+/**
+ * Prepend a release entry to CHANGELOG.md
+ */
+function writeChangelog(version: string, commits: string[]) {
+	const path = resolve(process.cwd(), "CHANGELOG.md");
+	const date = new Date().toISOString().slice(0, 10);
+	const items = commits.length
+		? commits.map((commit) => `- ${commit}`).join("\n")
+		: "- No changes recorded";
+	const entry = `## ${version} (${date})\n\n${items}\n`;
+
+	if (!existsSync(path)) {
+		writeFileSync(path, `# Changelog\n\n${entry}`);
+		return;
+	}
+
+	// Insert below the title, above the previous entries
+	const content = readFileSync(path, "utf-8");
+	const index = content.search(/^## /m);
+	writeFileSync(
+		path,
+		index === -1
+			? `${content.trimEnd()}\n\n${entry}`
+			: `${content.slice(0, index)}${entry}\n${content.slice(index)}`,
+	);
+}
+
+/**
+ * Bump the userscript version, build it and record the release
+ */
+export async function release(options: ReleaseOptions = {}): Promise<void> {
+	const configPath = options.configPath || "userscript.config.ts";
+	const bump = options.bump || "patch";
+	const config = await loadConfig(configPath);
+	const scripts = resolveScripts(config);
+
+	// Bump every script, scripts sharing a version keep sharing it
+	const versions = new Map<string, string>();
+	for (const script of scripts) {
+		const current = script.metadata.version;
+		if (current === undefined) {
+			throw new Error(
+				`Cannot release "${script.metadata.name}": metadata.version is not set`,
+			);
+		}
+		versions.set(current, bumpVersion(current, bump));
+	}
+
+	// Prepare the config file
+	const fullPath = resolve(process.cwd(), configPath);
+	let source = readFileSync(fullPath, "utf-8");
+	for (const [from, to] of versions) {
+		source = replaceVersion(source, from, to, fullPath);
+	}
+
+	const bumped = (metadata: UserscriptMetadata): UserscriptMetadata => ({
+		...metadata,
+		version: versions.get(metadata.version as string),
+	});
+
+	const released: UserscriptConfig = config.scripts
+		? {
+				...config,
+				scripts: Array.isArray(config.scripts)
+					? config.scripts.map((script) => ({
+							...script,
+							metadata: bumped(script.metadata),
+						}))
+					: Object.fromEntries(
+							Object.entries(config.scripts).map(([key, script]) => [
+								key,
+								{ ...script, metadata: bumped(script.metadata) },
+							]),
+						),
+			}
+		: { ...config, metadata: bumped(config.metadata as UserscriptMetadata) };
+
+	const newVersions = [...new Set(versions.values())];
+
+	// Prepare package.json
+	const pkgPath = resolve(process.cwd(), "package.json");
+	let pkg: string | undefined;
+	if (options.syncPackage) {
+		if (newVersions.length > 1) {
+			throw new Error(
+				"Cannot sync package.json: scripts were released with different versions",
+			);
+		}
+
+		pkg = readFileSync(pkgPath, "utf-8").replace(
+			/("version"\s*:\s*)"[^"]*"/,
+			`$1"${newVersions[0]}"`,
+		);
+	}
+
+	// Build before writing anything, so a failed build leaves no bumped
+	// version behind
+	await build({ config: released });
+
+	writeFileSync(fullPath, source);
+	for (const [from, to] of versions) {
+		console.log(`${pc.gray(from)} → ${pc.green(to)}`);
+	}
+
+	if (pkg !== undefined) {
+		writeFileSync(pkgPath, pkg);
+		console.log(pc.gray("Updated package.json"));
+	}
+
+	if (options.changelog !== false) {
+		const [previous] = versions.keys();
+		let commits: string[];
+		try {
+			commits = getCommits(previous);
+		} catch {
+			console.warn(
+				pc.yellow("Warning: could not read git history, skipping changelog"),
+			);
+			return;
+		}
+
+		writeChangelog(newVersions.join(", "), commits);
+		console.log(pc.gray("Updated CHANGELOG.md"));
+	}
+
+	console.log(
+		pc.green(`✓ Released ${newVersions.join(", ")}`),
+		pc.gray(`- tag it with: git tag v${newVersions[0]}`),
+	);
+}
@@ -0,0 +1,62 @@
+/**
+ * Helpers to keep sourcemaps aligned when lines are added before the bundle
+ */
+
+const INLINE_SOURCEMAP =
+	/\n\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,([A-Za-z0-9+/=]+)\s*$/;
+
+const SOURCEMAP_URL = /\n\/\/# sourceMappingURL=\S+\s*$/;
+
+/**
+ * Shift a sourcemap by a number of generated lines
+ *
+ * Positive values account for lines prepended to the code, negative values
+ * for leading lines that were stripped. Stripped lines must not have mappings.
+ * Optionally renames the generated file the map belongs to.
+ */
+export function shiftSourcemap(
+	map: string,
+	lines: number,
+	file?: string,
+): string {
+	const parsed = JSON.parse(map) as { mappings: string; file?: string };
+
+	if (file !== undefined) {
+		parsed.file = file;
+	}
+
+	if (lines > 0) {
+		parsed.mappings = ";".repeat(lines) + parsed.mappings;
+	} else if (lines < 0) {
+		parsed.mappings = parsed.mappings.split(";").slice(-lines).join(";");
+	}
+
+	return JSON.stringify(parsed);
+}
+
+/**
+ * Shift the inline sourcemap at the end of the code, if any
+ */
+export function shiftInlineSourcemap(code: string, lines: number): string {
+	return code.replace(INLINE_SOURCEMAP, (_match, base64: string) => {
+		const map = shiftSourcemap(
+			Buffer.from(base64, "base64").toString("utf-8"),
+			lines,
+		);
+		return `\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(map).toString("base64")}\n`;
+	});
+}
+
+/**
+ * Point the sourceMappingURL comment at the end of the code to a new file
+ */
+export function setSourcemapUrl(code: string, url: string): string {
+	return code.replace(SOURCEMAP_URL, `\n//# sourceMappingURL=${url}\n`);
+}
+
+/**
+ * Count the lines a prefix adds in front of the code
+ */
+export function countLines(prefix: string): number {
+	return prefix.split("\n").length - 1;
+}
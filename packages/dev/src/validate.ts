@@ -0,0 +1,545 @@
+import type { UserscriptConfig, UserscriptMetadata } from "./config.js";
+
+/**
+ * A single problem found in the config
+ */
+export interface ValidationIssue {
+	/** Config field path, e.g. `metadata.match[1]` */
+	path: string;
+	/** Human readable description of the problem */
+	message: string;
+}
+
+const RUN_AT = [
+	"document-start",
+	"document-body",
+	"document-end",
+	"document-idle",
+] as const;
+
+const SANDBOX = ["raw", "JavaScript", "DOM"] as const;
+
+const INJECT_INTO = ["page", "content", "auto"] as const;
+
+const ANTIFEATURES = [
+	"ads",
+	"tracking",
+	"miner",
+	"payment",
+	"referral-link",
+	"membership",
+] as const;
+
+const LOCALE = /^[a-z]{2,3}(-[A-Za-z0-9]+)*$/;
+
+const MATCH_SCHEMES = ["*", "http", "https", "file", "ftp", "urn"];
+
+// Grants that remain usable when the script runs in the page context
+const RAW_GRANTS = new Set(["none", "unsafeWindow"]);
+
+const KNOWN_KEYS = new Set<string>([
+	"name",
+	"namespace",
+	"version",
+	"description",
+	"author",
+	"localized",
+	"license",
+	"tag",
+	"antifeature",
+	"compatible",
+	"incompatible",
+	"match",
+	"exclude",
+	"include",
+	"grant",
+	"updateURL",
+	"downloadURL",
+	"supportURL",
+	"homepageURL",
+	"icon",
+	"runAt",
+	"require",
+	"resource",
+	"sandbox",
+	"injectInto",
+	"unwrap",
+	"topLevelAwait",
+	"connect",
+	"noframes",
+	"extra",
+] satisfies (keyof UserscriptMetadata)[]);
+
+// https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+const SEMVER =
+	/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Check whether a version follows semantic versioning
+ */
+export function isSemver(version: string): boolean {
+	return SEMVER.test(version);
+}
+
+/**
+ * Check a `@match` pattern against the match pattern syntax
+ *
+ * @see https://developer.chrome.com/docs/extensions/develop/concepts/match-patterns
+ * @returns Description of the problem, or undefined if the pattern is valid
+ */
+export function checkMatchPattern(pattern: string): string | undefined {
+	if (pattern === "<all_urls>") return undefined;
+
+	const parts = /^([^:/]+):\/\/([^/]*)(\/.*)?$/.exec(pattern);
+	if (!parts) {
+		return `"${pattern}" is not a match pattern, expected <scheme>://<host><path>`;
+	}
+
+	const [, scheme, host, path] = parts;
+
+	if (!MATCH_SCHEMES.includes(scheme)) {
+		return `"${pattern}" has unsupported scheme "${scheme}", expected one of ${MATCH_SCHEMES.join(", ")}`;
+	}
+
+	if (scheme === "file") {
+		if (host !== "") {
+			return `"${pattern}" must not have a host, use file:///<path>`;
+		}
+	} else if (host === "") {
+		return `"${pattern}" is missing a host`;
+	} else if (host !== "*") {
+		const hostname = host.replace(/:(\d+|\*)$/, "");
+		if (hostname.slice(hostname.startsWith("*.") ? 2 : 0).includes("*")) {
+			return `"${pattern}" host may only start with "*." or be "*"`;
+		}
+	}
+
+	if (path === undefined) {
+		return `"${pattern}" is missing a path, e.g. "${pattern}/*"`;
+	}
+
+	return undefined;
+}
+
+const toArray = (value: string | string[] | undefined): string[] =>
+	value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+function isAbsoluteUrl(value: string): boolean {
+	try {
+		new URL(value);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Validate userscript metadata and collect every problem found
+ */
+export function validateMetadata(
+	metadata: UserscriptMetadata,
+	prefix = "metadata",
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const report = (path: string, message: string) => {
+		issues.push({ path: `${prefix}.${path}`, message });
+	};
+
+	// Check a field that accepts a string or a list of strings
+	const eachString = (
+		key: keyof UserscriptMetadata,
+		check?: (value: string) => string | undefined,
+	) => {
+		const value = metadata[key];
+		if (value === undefined) return;
+
+		if (typeof value === "string") {
+			const problem = check?.(value);
+			if (problem) report(key, problem);
+			return;
+		}
+
+		if (!Array.isArray(value)) {
+			report(key, "must be a string or an array of strings");
+			return;
+		}
+
+		value.forEach((item, index) => {
+			const problem =
+				typeof item !== "string" ? "must be a string" : check?.(item);
+			if (problem) report(`${key}[${index}]`, problem);
+		});
+	};
+
+	const url = (value: string) =>
+		isAbsoluteUrl(value)
+			? undefined
+			: `"${value}" must be an absolute URL, e.g. https://example.com/${value.replace(/^\.?\//, "")}`;
+
+	for (const key of Object.keys(metadata)) {
+		if (!KNOWN_KEYS.has(key)) {
+			report(key, "is not a known metadata field");
+		}
+	}
+
+	if (typeof metadata.name !== "string" || metadata.name.trim() === "") {
+		report("name", "is required and must be a non-empty string");
+	}
+
+	for (const key of [
+		"namespace",
+		"description",
+		"author",
+		"license",
+	] as const) {
+		if (metadata[key] !== undefined && typeof metadata[key] !== "string") {
+			report(key, "must be a string");
+		}
+	}
+
+	if (metadata.version !== undefined) {
+		if (typeof metadata.version !== "string") {
+			report("version", "must be a string");
+		} else if (!isSemver(metadata.version)) {
+			report(
+				"version",
+				`"${metadata.version}" is not a semantic version, e.g. "1.0.0"`,
+			);
+		}
+	}
+
+	eachString("match", checkMatchPattern);
+
+	const regex = (value: string) => {
+		const literal = /^\/(.*)\/([a-z]*)$/.exec(value);
+		if (!literal) return undefined;
+		try {
+			new RegExp(literal[1], literal[2]);
+			return undefined;
+		} catch (error) {
+			return `"${value}" is not a valid regular expression: ${(error as Error).message}`;
+		}
+	};
+	eachString("include", regex);
+	eachString("exclude", regex);
+
+	eachString("tag");
+	eachString("compatible");
+	eachString("incompatible");
+	eachString("grant");
+	eachString("require", url);
+	eachString("connect", (value) =>
+		/[/:]/.test(value)
+			? `"${value}" must be a hostname without scheme or path`
+			: undefined,
+	);
+
+	for (const key of [
+		"icon",
+		"updateURL",
+		"downloadURL",
+		"supportURL",
+		"homepageURL",
+	] as const) {
+		const value = metadata[key];
+		if (value === undefined) continue;
+		const problem = typeof value !== "string" ? "must be a string" : url(value);
+		if (problem) report(key, problem);
+	}
+
+	if (metadata.resource !== undefined) {
+		if (
+			typeof metadata.resource !== "object" ||
+			metadata.resource === null ||
+			Array.isArray(metadata.resource)
+		) {
+			report("resource", "must be an object mapping names to URLs");
+		} else {
+			for (const [name, value] of Object.entries(metadata.resource)) {
+				const problem =
+					typeof value !== "string" ? "must be a string" : url(value);
+				if (problem) report(`resource.${name}`, problem);
+			}
+		}
+	}
+
+	if (
+		metadata.runAt !== undefined &&
+		!(RUN_AT as readonly string[]).includes(metadata.runAt)
+	) {
+		const suggestion = RUN_AT.find(
+			(value) => value === String(metadata.runAt).replace(/_/g, "-"),
+		);
+		report(
+			"runAt",
+			suggestion
+				? `"${metadata.runAt}" is not valid, did you mean "${suggestion}"?`
+				: `"${metadata.runAt}" is not valid, expected one of ${RUN_AT.join(", ")}`,
+		);
+	}
+
+	if (
+		metadata.sandbox !== undefined &&
+		!(SANDBOX as readonly string[]).includes(metadata.sandbox)
+	) {
+		report(
+			"sandbox",
+			`"${metadata.sandbox}" is not valid, expected one of ${SANDBOX.join(", ")}`,
+		);
+	}
+
+	if (
+		metadata.injectInto !== undefined &&
+		!(INJECT_INTO as readonly string[]).includes(metadata.injectInto)
+	) {
+		report(
+			"injectInto",
+			`"${metadata.injectInto}" is not valid, expected one of ${INJECT_INTO.join(", ")}`,
+		);
+	}
+
+	for (const key of ["unwrap", "topLevelAwait", "noframes"] as const) {
+		if (metadata[key] !== undefined && typeof metadata[key] !== "boolean") {
+			report(key, "must be a boolean");
+		}
+	}
+
+	if (metadata.localized !== undefined) {
+		for (const [locale, strings] of Object.entries(metadata.localized)) {
+			if (!LOCALE.test(locale)) {
+				report(
+					`localized.${locale}`,
+					`"${locale}" is not a locale code, e.g. "de" or "pt-BR"`,
+				);
+			}
+			for (const key of ["name", "description"] as const) {
+				if (strings?.[key] !== undefined && typeof strings[key] !== "string") {
+					report(`localized.${locale}.${key}`, "must be a string");
+				}
+			}
+		}
+	}
+
+	if (metadata.antifeature !== undefined) {
+		const antifeatures = Array.isArray(metadata.antifeature)
+			? metadata.antifeature
+			: [metadata.antifeature];
+		antifeatures.forEach((antifeature, index) => {
+			const path = Array.isArray(metadata.antifeature)
+				? `antifeature[${index}]`
+				: "antifeature";
+			if (!(ANTIFEATURES as readonly string[]).includes(antifeature?.type)) {
+				report(
+					`${path}.type`,
+					`"${antifeature?.type}" is not valid, expected one of ${ANTIFEATURES.join(", ")}`,
+				);
+			}
+		});
+	}
+
+	if (metadata.extra !== undefined) {
+		for (const [key, value] of Object.entries(metadata.extra)) {
+			if (!/^[\w:.-]+$/.test(key)) {
+				report(
+					`extra.${key}`,
+					"key must not contain spaces or special characters",
+				);
+			}
+			const valid =
+				typeof value === "string" ||
+				typeof value === "boolean" ||
+				(Array.isArray(value) && value.every((v) => typeof v === "string"));
+			if (!valid) {
+				report(
+					`extra.${key}`,
+					"must be a string, an array of strings or a boolean",
+				);
+			}
+		}
+	}
+
+	// Conflicting combinations
+	const grants = toArray(metadata.grant);
+
+	if (grants.includes("none") && grants.length > 1) {
+		report("grant", `"none" cannot be combined with other grants`);
+	}
+
+	const gmGrants = grants.filter((grant) => !RAW_GRANTS.has(grant));
+	if (metadata.sandbox === "raw" && gmGrants.length > 0) {
+		report(
+			"sandbox",
+			`"raw" runs in the page context where GM APIs are unavailable, but grant includes ${gmGrants.join(", ")}`,
+		);
+	}
+
+	return issues;
+}
+
+/**
+ * Validate the scripts of a multi-script config
+ */
+function validateScripts(config: UserscriptConfig): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const report = (path: string, message: string) => {
+		issues.push({ path, message });
+	};
+
+	if (config.metadata !== undefined) {
+		report(
+			"metadata",
+			"cannot be combined with scripts, move it into each script",
+		);
+	}
+	if (config.entry !== undefined) {
+		report(
+			"entry",
+			"cannot be combined with scripts, set scripts[].entry instead",
+		);
+	}
+	if (config.build?.outFile !== undefined) {
+		report(
+			"build.outFile",
+			"cannot be combined with scripts, set scripts[].outFile instead",
+		);
+	}
+
+	const scripts = Array.isArray(config.scripts)
+		? config.scripts.map(
+				(script, index) => [`scripts[${index}]`, script] as const,
+			)
+		: Object.entries(config.scripts ?? {}).map(
+				([key, script]) => [`scripts.${key}`, script] as const,
+			);
+
+	if (scripts.length === 0) {
+		report("scripts", "must contain at least one script");
+	}
+
+	const outFiles = new Map<string, string>();
+
+	for (const [path, script] of scripts) {
+		if (typeof script?.entry !== "string" || script.entry === "") {
+			report(`${path}.entry`, "is required and must be a file path");
+		}
+
+		if (!script?.metadata) {
+			report(`${path}.metadata`, "is required");
+		} else {
+			issues.push(...validateMetadata(script.metadata, `${path}.metadata`));
+		}
+
+		if (script?.outFile !== undefined) {
+			const previous = outFiles.get(script.outFile);
+			if (previous) {
+				report(
+					`${path}.outFile`,
+					`"${script.outFile}" is already used by ${previous}`,
+				);
+			}
+			outFiles.set(script.outFile, path);
+		}
+	}
+
+	return issues;
+}
+
+function throwIssues(title: string, issues: ValidationIssue[]) {
+	if (issues.length === 0) return;
+
+	const details = issues
+		.map((issue) => `  - ${issue.path}: ${issue.message}`)
+		.join("\n");
+	throw new Error(
+		`${title} (${issues.length} problem${issues.length === 1 ? "" : "s"}):\n${details}`,
+	);
+}
+
+/**
+ * Validate a userscript config, throwing an error that lists every problem
+ */
+export function validateConfig(config: UserscriptConfig): void {
+	const issues: ValidationIssue[] = [];
+
+	if (config.scripts === undefined) {
+		issues.push(...validateMetadata(config.metadata as UserscriptMetadata));
+	} else {
+		issues.push(...validateScripts(config));
+	}
+
+	const baseUrl = config.build?.baseUrl;
+	if (
+		baseUrl !== undefined &&
+		(typeof baseUrl !== "string" || !isAbsoluteUrl(baseUrl))
+	) {
+		issues.push({
+			path: "build.baseUrl",
+			message: `"${baseUrl}" must be an absolute URL, e.g. https://example.com/scripts/`,
+		});
+	}
+
+	const maxSize = config.build?.maxSize;
+	if (
+		maxSize !== undefined &&
+		(typeof maxSize !== "number" || !(maxSize > 0))
+	) {
+		issues.push({
+			path: "build.maxSize",
+			message: "must be a positive number of bytes, e.g. 100 * 1024",
+		});
+	}
+
+	const assets = config.build?.assets;
+	if (assets !== undefined && assets !== "inline" && assets !== "resource") {
+		issues.push({
+			path: "build.assets",
+			message: `"${assets}" is not valid, expected one of inline, resource`,
+		});
+	} else if (assets === "resource" && baseUrl === undefined) {
+		issues.push({
+			path: "build.assets",
+			message: `"resource" requires build.baseUrl to know where assets are published`,
+		});
+	}
+
+	const fallback = config.build?.fallback;
+	if (
+		fallback !== undefined &&
+		!["silent", "warn", "throw"].includes(fallback)
+	) {
+		issues.push({
+			path: "build.fallback",
+			message: `"${fallback}" is not valid, expected one of silent, warn, throw`,
+		});
+	}
+
+	for (const [id, external] of Object.entries(config.build?.externals ?? {})) {
+		const path = `build.externals.${id}`;
+		if (
+			typeof external?.global !== "string" ||
+			!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(external.global)
+		) {
+			issues.push({
+				path: `${path}.global`,
+				message: `"${external?.global}" must be a global variable name, e.g. "jQuery"`,
+			});
+		}
+		if (typeof external?.url !== "string" || !isAbsoluteUrl(external.url)) {
+			issues.push({
+				path: `${path}.url`,
+				message: `"${external?.url}" must be an absolute URL`,
+			});
+		}
+		if (
+			external?.integrity !== undefined &&
+			!/^(sha256|sha384|sha512)-[A-Za-z0-9+/]+={0,2}$/.test(external.integrity)
+		) {
+			issues.push({
+				path: `${path}.integrity`,
+				message: `"${external.integrity}" must be an SRI hash, e.g. "sha384-..."`,
+			});
+		}
+	}
+
+	throwIssues("Invalid config", issues);
+}
@@ -0,0 +1,66 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { generateHeader } from "../src/builder.js";
+import { checkScript } from "../src/check.js";
+import type { UserscriptMetadata } from "../src/config.js";
+
+// Shape of the wrappers of @userscript-x/core in a bundle
+const CORE_CODE = `
+function resolveApi(name, ...candidates) {
+	for (const candidate of candidates) {
+		try {
+			const api = candidate();
+			if (api) return api;
+		} catch {}
+	}
+}
+const request = resolveApi("xmlHttpRequest", () => GM.xmlHttpRequest, () => GM_xmlhttpRequest);
+const listValues = resolveApi("listValues", () => GM.listValues, () => GM_listValues);
+`;
+
+describe("checkScript", () => {
+	let outDir: string;
+
+	beforeEach(() => {
+		outDir = mkdtempSync(join(tmpdir(), "usx-check-"));
+	});
+
+	afterEach(() => {
+		rmSync(outDir, { recursive: true, force: true });
+	});
+
+	function check(metadata: UserscriptMetadata, code: string) {
+		writeFileSync(
+			join(outDir, "test.user.js"),
+			`${generateHeader(metadata)}\n${code}`,
+		);
+		return checkScript(
+			{ entry: "src/main.ts", metadata, outFile: "test.user.js" },
+			{ metadata, build: { outDir, autoGrant: false } },
+		);
+	}
+
+	it("passes a script granting core APIs in either form", () => {
+		const metadata = {
+			name: "Test",
+			match: "https://example.com/*",
+			grant: ["GM_xmlhttpRequest"],
+		};
+
+		expect(check(metadata, `${CORE_CODE}\nGM.xmlHttpRequest({});`)).toEqual([]);
+	});
+
+	it("reports APIs called without a grant", () => {
+		const metadata = {
+			name: "Test",
+			match: "https://example.com/*",
+			grant: ["GM.getValue"],
+		};
+
+		expect(check(metadata, `GM_addStyle("body {}");`)).toEqual([
+			{ level: "error", message: "uses GM_addStyle without @grant" },
+		]);
+	});
+});
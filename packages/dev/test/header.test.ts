@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { generateHeader } from "../src/builder.js";
+
+describe("generateHeader", () => {
+	it("renders every key in a fixed order", () => {
+		const header = generateHeader({
+			extra: { "run-in": "normal-tabs", "grant-extra": true },
+			noframes: true,
+			grant: ["GM.getValue", "GM.setValue"],
+			match: "https://example.com/*",
+			antifeature: [
+				{ type: "ads", description: "Shows ads" },
+				{ type: "tracking" },
+			],
+			localized: {
+				ja: { name: "テスト", description: "説明" },
+				de: { name: "Test DE" },
+			},
+			version: "1.0.0",
+			name: "Test",
+			description: "A test",
+			resource: { logo: "https://example.com/logo.png" },
+			runAt: "document-start",
+			unwrap: true,
+			topLevelAwait: false,
+			homepageURL: "https://example.com/",
+		});
+
+		expect(header).toBe(
+			[
+				"// ==UserScript==",
+				"// @name         Test",
+				"// @name:de      Test DE",
+				"// @name:ja      テスト",
+				"// @version      1.0.0",
+				"// @description  A test",
+				"// @description:ja 説明",
+				"// @antifeature  ads Shows ads",
+				"// @antifeature  tracking",
+				"// @match        https://example.com/*",
+				"// @grant        GM.getValue",
+				"// @grant        GM.setValue",
+				"// @resource     logo https://example.com/logo.png",
+				"// @run-at       document-start",
+				"// @unwrap",
+				"// @noframes",
+				"// @homepageURL  https://example.com/",
+				"// @grant-extra",
+				"// @run-in       normal-tabs",
+				"// ==/UserScript==",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("doesn't depend on the order of the config keys", () => {
+		const metadata = {
+			name: "Test",
+			match: ["https://example.com/*"],
+			localized: { fr: { name: "Essai" }, de: { name: "Test" } },
+			extra: { b: "2", a: "1" },
+		};
+		const reordered = {
+			extra: { a: "1", b: "2" },
+			localized: { de: { name: "Test" }, fr: { name: "Essai" } },
+			match: ["https://example.com/*"],
+			name: "Test",
+		};
+
+		expect(generateHeader(reordered)).toBe(generateHeader(metadata));
+	});
+});
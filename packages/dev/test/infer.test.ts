@@ -0,0 +1,196 @@
+import { parseAst } from "rolldown/parseAst";
+import { describe, expect, it, vi } from "vitest";
+import {
+	applyUsage,
+	type CodeUsage,
+	inferGrants,
+	scanCoreRequests,
+	scanUsage,
+} from "../src/infer.js";
+
+const emptyUsage = (): CodeUsage => ({
+	grants: new Set(),
+	fallbacks: new Set(),
+	hosts: new Set(),
+});
+
+function scan(code: string): CodeUsage {
+	const usage = emptyUsage();
+	scanUsage(parseAst(code), usage);
+	return usage;
+}
+
+describe("scanUsage", () => {
+	it("collects GM APIs called or referenced", () => {
+		const usage = scan(`
+			GM_addStyle("body {}");
+			const get = GM.getValue;
+			console.log(unsafeWindow.location, GM_info);
+		`);
+
+		expect([...usage.grants].sort()).toEqual([
+			"GM.getValue",
+			"GM_addStyle",
+			"unsafeWindow",
+		]);
+	});
+
+	it("ignores property names", () => {
+		const usage = scan(`
+			const api = { GM_setValue: 1, GM_deleteValue() {} };
+			api.GM_getValue();
+			class Store { GM_listValues() {} }
+		`);
+
+		expect([...usage.grants]).toEqual([]);
+	});
+
+	it("ignores local names", () => {
+		const usage = scan(`
+			const GM_setValue = (key, value) => localStorage.setItem(key, value);
+			GM_setValue("a", 1);
+			function wrap(GM_getValue) { return GM_getValue("a"); }
+			const GM = { getValue() {} };
+			GM.getValue("a");
+		`);
+
+		expect([...usage.grants]).toEqual([]);
+	});
+
+	it("collects hosts of URLs passed to GM request APIs", () => {
+		const usage = scan(`
+			GM_xmlhttpRequest({ url: "https://api.example.com/items", method: "GET" });
+			GM.xmlHttpRequest({ url: \`https://cdn.example.org/\${id}.json\` });
+		`);
+
+		expect([...usage.hosts].sort()).toEqual([
+			"api.example.com",
+			"cdn.example.org",
+		]);
+	});
+
+	it("ignores other URLs", () => {
+		const usage = scan(`
+			const docs = "https://docs.example.com/";
+			GM_xmlhttpRequest({ url: location.origin + "/api", headers: { referer: "https://example.net/" } });
+			window.fetch("https://api.example.com/");
+		`);
+
+		expect([...usage.hosts]).toEqual([]);
+	});
+
+	it("separates fallback candidates from direct use", () => {
+		const usage = scan(`
+			resolveApi("getValue", () => GM.getValue, () => GM_getValue);
+			GM_setValue("a", 1);
+		`);
+
+		expect([...usage.grants]).toEqual(["GM_setValue"]);
+		expect([...usage.fallbacks]).toEqual(["GM.getValue", "GM_getValue"]);
+	});
+});
+
+describe("scanCoreRequests", () => {
+	function scanModule(code: string): string[] {
+		const usage = emptyUsage();
+		scanCoreRequests(parseAst(code, { lang: "ts" }), usage);
+		return [...usage.hosts].sort();
+	}
+
+	it("collects URLs passed to fetch and download from core", () => {
+		expect(
+			scanModule(`
+				import { fetch as request, download } from "@userscript-x/core";
+				import * as usx from "@userscript-x/core";
+				await request<Item[]>("https://api.example.com/items");
+				await download(\`https://cdn.example.org/\${id}.zip\`, "file.zip");
+				await usx.fetch("https://usx.example.net/");
+			`),
+		).toEqual(["api.example.com", "cdn.example.org", "usx.example.net"]);
+	});
+
+	it("ignores functions that aren't from core", () => {
+		expect(
+			scanModule(`
+				import { fetch } from "./api";
+				await fetch("https://api.example.com/items");
+				await window.fetch("https://other.example.com/");
+			`),
+		).toEqual([]);
+	});
+});
+
+describe("inferGrants", () => {
+	const usage = (grants: string[], fallbacks: string[]): CodeUsage => ({
+		...emptyUsage(),
+		grants: new Set(grants),
+		fallbacks: new Set(fallbacks),
+	});
+
+	it("adds one form of each fallback API", () => {
+		expect(
+			inferGrants(
+				usage([], ["GM_getValue", "GM.getValue", "GM_getResourceText"]),
+			),
+		).toEqual(["GM.getValue", "GM_getResourceText"]);
+	});
+
+	it("skips fallbacks covered by the config or direct use", () => {
+		expect(
+			inferGrants(usage(["GM_setValue"], ["GM.setValue", "GM.getValue"]), [
+				"GM_getValue",
+			]),
+		).toEqual(["GM_setValue"]);
+	});
+});
+
+describe("applyUsage", () => {
+	const usage = (grants: string[], hosts: string[] = []): CodeUsage => ({
+		...emptyUsage(),
+		grants: new Set(grants),
+		hosts: new Set(hosts),
+	});
+
+	it("merges grants and connect hosts with the config", () => {
+		const metadata = applyUsage(
+			{ name: "Test", grant: "GM_addStyle", connect: "example.com" },
+			usage(["GM.xmlHttpRequest", "GM_addStyle"], ["api.example.com"]),
+		);
+
+		expect(metadata.grant).toEqual(["GM_addStyle", "GM.xmlHttpRequest"]);
+		expect(metadata.connect).toEqual(["example.com", "api.example.com"]);
+	});
+
+	it("leaves grant none alone and warns", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const metadata = { name: "Test", grant: ["none"] };
+
+		expect(applyUsage(metadata, usage(["GM_addStyle"]))).toBe(metadata);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("GM_addStyle"));
+		warn.mockRestore();
+	});
+
+	it("adds no grants to raw scripts using fallbacks", () => {
+		const metadata = { name: "Test", sandbox: "raw" as const };
+		const fallbacks: CodeUsage = {
+			...emptyUsage(),
+			fallbacks: new Set(["GM.getValue", "GM_getValue"]),
+		};
+
+		expect(applyUsage(metadata, fallbacks)).toBe(metadata);
+	});
+
+	it("adds connect hosts for downloads", () => {
+		const metadata = applyUsage(
+			{ name: "Test" },
+			{
+				...emptyUsage(),
+				fallbacks: new Set(["GM.download", "GM_download"]),
+				hosts: new Set(["cdn.example.org"]),
+			},
+		);
+
+		expect(metadata.grant).toEqual(["GM.download"]);
+		expect(metadata.connect).toEqual(["cdn.example.org"]);
+	});
+});
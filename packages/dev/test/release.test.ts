@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { bumpVersion, replaceVersion } from "../src/release.js";
+
+describe("bumpVersion", () => {
+	it("bumps by release type", () => {
+		expect(bumpVersion("1.2.3", "patch")).toBe("1.2.4");
+		expect(bumpVersion("1.2.3", "minor")).toBe("1.3.0");
+		expect(bumpVersion("1.2.3", "major")).toBe("2.0.0");
+		expect(bumpVersion("1.3.0-beta.1", "patch")).toBe("1.3.0");
+	});
+
+	it("rejects invalid versions", () => {
+		expect(() => bumpVersion("1.2.3", "next")).toThrow();
+	});
+});
+
+describe("replaceVersion", () => {
+	it("replaces only the metadata version", () => {
+		const source = `export default defineConfig({
+	metadata: { name: "Test", version: "1.0.0" },
+	build: { define: { version: "1.0.0" } },
+});`;
+
+		expect(replaceVersion(source, "1.0.0", "1.0.1")).toBe(
+			source.replace(
+				'name: "Test", version: "1.0.0"',
+				'name: "Test", version: "1.0.1"',
+			),
+		);
+	});
+
+	it("replaces the version of every script sharing it", () => {
+		const source = `export default defineConfig({
+	scripts: [
+		{ entry: "a.ts", metadata: { name: "A", version: '1.0.0' } },
+		{ entry: "b.ts", metadata: { name: "B", version: '1.0.0' } },
+	],
+});`;
+
+		expect(replaceVersion(source, "1.0.0", "1.1.0")).toBe(
+			source.replaceAll("'1.0.0'", "'1.1.0'"),
+		);
+	});
+
+	it("throws when the version isn't found", () => {
+		expect(() =>
+			replaceVersion(`export default { metadata: {} };`, "1.0.0", "1.0.1"),
+		).toThrow(/Could not find metadata version/);
+	});
+});
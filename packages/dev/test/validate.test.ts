@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { UserscriptConfig, UserscriptMetadata } from "../src/config.js";
+import {
+	checkMatchPattern,
+	validateConfig,
+	validateMetadata,
+} from "../src/validate.js";
+
+describe("checkMatchPattern", () => {
+	it("accepts valid patterns", () => {
+		for (const pattern of [
+			"<all_urls>",
+			"*://*/*",
+			"https://example.com/*",
+			"https://*.example.com/posts/*",
+			"http://localhost:8080/*",
+			"http://localhost:*/*",
+			"file:///home/*",
+		]) {
+			expect(checkMatchPattern(pattern), pattern).toBeUndefined();
+		}
+	});
+
+	it("rejects invalid patterns", () => {
+		expect(checkMatchPattern("example.com/*")).toMatch(/not a match pattern/);
+		expect(checkMatchPattern("chrome://settings/*")).toMatch(
+			/unsupported scheme "chrome"/,
+		);
+		expect(checkMatchPattern("https:///*")).toMatch(/missing a host/);
+		expect(checkMatchPattern("https://www.*.com/*")).toMatch(
+			/may only start with/,
+		);
+		expect(checkMatchPattern("https://example.com")).toMatch(/missing a path/);
+		expect(checkMatchPattern("file://host/path")).toMatch(
+			/must not have a host/,
+		);
+	});
+});
+
+describe("validateMetadata", () => {
+	const validate = (metadata: Partial<UserscriptMetadata>) =>
+		validateMetadata({ name: "Test", ...metadata } as UserscriptMetadata);
+
+	it("accepts valid metadata", () => {
+		expect(
+			validate({
+				version: "1.0.0-beta.1",
+				match: ["https://example.com/*"],
+				icon: "https://example.com/icon.png",
+				runAt: "document-end",
+				grant: ["GM.getValue"],
+			}),
+		).toEqual([]);
+	});
+
+	it("reports every problem with its field path", () => {
+		expect(
+			validate({
+				version: "1.0",
+				match: ["https://example.com/*", "example.com"],
+				icon: "icon.png",
+				runAt: "document_end" as UserscriptMetadata["runAt"],
+			}),
+		).toEqual([
+			{
+				path: "metadata.version",
+				message: '"1.0" is not a semantic version, e.g. "1.0.0"',
+			},
+			{
+				path: "metadata.match[1]",
+				message: expect.stringContaining("not a match pattern"),
+			},
+			{ path: "metadata.icon", message: expect.any(String) },
+			{
+				path: "metadata.runAt",
+				message: '"document_end" is not valid, did you mean "document-end"?',
+			},
+		]);
+	});
+
+	it("reports unknown fields and a missing name", () => {
+		const issues = validateMetadata({
+			runat: "document-end",
+		} as unknown as UserscriptMetadata);
+
+		expect(issues.map((issue) => issue.path)).toEqual([
+			"metadata.runat",
+			"metadata.name",
+		]);
+	});
+
+	it("reports conflicting grants", () => {
+		expect(validate({ grant: ["none", "GM.getValue"] })).toEqual([
+			{
+				path: "metadata.grant",
+				message: '"none" cannot be combined with other grants',
+			},
+		]);
+		expect(validate({ sandbox: "raw", grant: ["GM_setValue"] })).toEqual([
+			{
+				path: "metadata.sandbox",
+				message: expect.stringContaining("GM_setValue"),
+			},
+		]);
+		expect(validate({ sandbox: "raw", grant: ["unsafeWindow"] })).toEqual([]);
+	});
+});
+
+describe("validateConfig", () => {
+	it("throws an error listing every problem", () => {
+		const config = {
+			metadata: { name: "", version: "x" },
+			build: { maxSize: -1 },
+		} as UserscriptConfig;
+
+		expect(() => validateConfig(config)).toThrow(
+			/Invalid config \(3 problems\):\n {2}- metadata\.name: .*\n {2}- metadata\.version: .*\n {2}- build\.maxSize: /,
+		);
+	});
+});
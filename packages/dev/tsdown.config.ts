@@ -10,5 +10,5 @@ export default defineConfig({
 	treeshake: true,
 	publint: true,
 	minify: false,
-	external: ["tsdown", "mri", "picocolors", "ws", "chokidar"],
+	external: ["tsdown", "rolldown", "mri", "picocolors", "ws", "chokidar"],
 });